@@ -1,5 +1,5 @@
 // example.ts - Example usage of Halin web framework
-import { Halin, HalinError } from '../src/halin';
+import { Halin, HalinError, cors } from '../src/halin';
 
 // Create Halin app instance
 const app = new Halin();
@@ -47,18 +47,10 @@ app.use((err, req, res, next) => {
   }
 });
 
-const cors = (req, res, next) => {
-  res.headers.set('Access-Control-Allow-Origin', '*');
-  res.headers.set('Access-Control-Allow-Methods', 'GET, POST');
-  res.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  next();
-};
+// CORS for the whole app; preflight requests are answered automatically
+app.use(cors());
 
-app.options('/cors', cors, (req, res) => {
-  res.text('');
-});
-
-app.get('/cors', cors, (req, res) => {
+app.get('/cors', (req, res) => {
   res.json({ message: 'CORS enabled' });
 });
 
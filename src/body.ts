@@ -0,0 +1,109 @@
+// body.ts - On-demand request body reading for Halin
+// The raw body is read at most once, capped at the configured size limit, and
+// cached so json(), text(), formData() and arrayBuffer() can all be used.
+
+import { HalinError } from './error';
+import type { Request } from './halin';
+
+// Turns a request into a value for req.body; use req.text(), req.arrayBuffer(),
+// req.formData() or req.stream() to read the raw body
+export type BodyParser = (req: Request) => unknown | Promise<unknown>;
+
+function tooLarge(limit: number): HalinError {
+  return new HalinError(413, `Payload Too Large: body exceeds ${limit} bytes`);
+}
+
+export class BodyReader {
+  private buffered: Promise<ArrayBuffer> | null = null;
+  private streamed = false;
+
+  constructor(private request: globalThis.Request, public limit?: number) {}
+
+  get contentType(): string {
+    return this.request.headers.get('Content-Type') ?? '';
+  }
+
+  hasBody(): boolean {
+    return this.request.body !== null;
+  }
+
+  // The raw body as a stream that errors with 413 once the limit is passed.
+  // It can only be taken once and not after the body was buffered.
+  stream(): ReadableStream<Uint8Array> | null {
+    if (this.buffered || this.streamed) {
+      throw new HalinError(500, 'Request body has already been read');
+    }
+    this.streamed = true;
+
+    const body = this.request.body;
+    if (!body) return null;
+
+    const limit = this.limit;
+    if (limit === undefined) return body;
+
+    const length = Number(this.request.headers.get('Content-Length'));
+    if (length > limit) {
+      throw tooLarge(limit);
+    }
+
+    let received = 0;
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.length;
+        if (received > limit) {
+          controller.error(tooLarge(limit));
+          return;
+        }
+        controller.enqueue(chunk);
+      }
+    }));
+  }
+
+  arrayBuffer(): Promise<ArrayBuffer> {
+    this.buffered ??= (async () => {
+      const stream = this.stream();
+      if (!stream) return new ArrayBuffer(0);
+      // Keep this.buffered set so stream() refuses to hand out the body again
+      return new globalThis.Response(stream).arrayBuffer();
+    })();
+    return this.buffered;
+  }
+
+  async text(): Promise<string> {
+    return new TextDecoder().decode(await this.arrayBuffer());
+  }
+
+  async formData(): Promise<FormData> {
+    const buffer = await this.arrayBuffer();
+    return new globalThis.Response(buffer, {
+      headers: { 'Content-Type': this.contentType }
+    }).formData();
+  }
+}
+
+// Media type without parameters, e.g. 'application/json; charset=utf-8' -> 'application/json'
+export function mediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+// Pick the parser for a content type: exact match, then 'type/*', then '*/*'
+export function findParser(parsers: Map<string, BodyParser>, contentType: string): BodyParser | undefined {
+  const type = mediaType(contentType);
+  return parsers.get(type)
+    ?? parsers.get(`${type.split('/')[0]}/*`)
+    ?? parsers.get('*/*');
+}
+
+export const jsonParser: BodyParser = req => req.json();
+
+export const urlencodedParser: BodyParser = async req => {
+  const formData = await req.formData();
+  // Convert FormData to object manually
+  const formDataObj: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    formDataObj[key] = value.toString();
+  });
+  return formDataObj;
+};
+
+export const textParser: BodyParser = req => req.text();
@@ -0,0 +1,133 @@
+// compress.ts - Response compression middleware for Halin
+// The encoding is negotiated from Accept-Encoding once the route has run.
+// Buffered bodies are compressed in one go with node:zlib; streams and files
+// are piped through a CompressionStream so they are never buffered.
+
+import { brotliCompressSync, deflateSync, gzipSync } from 'node:zlib';
+import type { Handler } from './halin';
+
+export type Encoding = 'br' | 'gzip' | 'deflate';
+
+export interface CompressOptions {
+  // Minimum body size in bytes worth compressing (default 1024)
+  threshold?: number;
+  // Content types to compress; '*' matches any run of characters, e.g.
+  // 'text/*' or 'application/*+json'
+  types?: string[];
+  // Supported encodings in order of preference (default br, gzip, deflate)
+  encodings?: Encoding[];
+}
+
+const DEFAULT_TYPES = [
+  'text/*',
+  'application/json',
+  'application/javascript',
+  'application/xml',
+  'application/wasm',
+  'application/*+json',
+  'application/*+xml',
+  'image/svg+xml'
+];
+
+const STREAM_FORMATS: Record<Encoding, string> = {
+  br: 'brotli',
+  gzip: 'gzip',
+  deflate: 'deflate'
+};
+
+const COMPRESSORS: Record<Encoding, (data: Uint8Array) => Uint8Array> = {
+  br: data => brotliCompressSync(data),
+  gzip: data => gzipSync(data),
+  deflate: data => deflateSync(data)
+};
+
+function typeMatcher(types: string[]): RegExp {
+  const patterns = types.map(type => type.toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*'));
+  return new RegExp(`^(?:${patterns.join('|')})$`);
+}
+
+function isCompressible(contentType: string, matcher: RegExp): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  // Event streams must reach the client unbuffered
+  if (!type || type === 'text/event-stream') return false;
+  return matcher.test(type);
+}
+
+// Pick the preferred encoding the client accepts, or null for identity
+export function negotiateEncoding(header: string | null, encodings: Encoding[]): Encoding | null {
+  if (!header) return null;
+
+  const weights = new Map<string, number>();
+  for (const entry of header.split(',')) {
+    const [name, ...params] = entry.trim().toLowerCase().split(';');
+    if (!name) continue;
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    weights.set(name.trim(), q ? Number(q.slice(2)) || 0 : 1);
+  }
+
+  let best: Encoding | null = null;
+  let bestWeight = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+export function compress(options: CompressOptions = {}): Handler {
+  const threshold = options.threshold ?? 1024;
+  const types = typeMatcher(options.types ?? DEFAULT_TYPES);
+  const encodings = options.encodings ?? ['br', 'gzip', 'deflate'];
+
+  return async (req, res, next) => {
+    await next?.();
+
+    const body = res.body;
+    if (body === null || req.method === 'HEAD') return;
+    // Empty, not modified and partial responses must be sent as they are
+    if (res.statusCode === 204 || res.statusCode === 304 || res.statusCode === 206) return;
+    if (res.headers.has('Content-Encoding')) return;
+    if (/\bno-transform\b/i.test(res.headers.get('Cache-Control') ?? '')) return;
+
+    const contentType = res.headers.get('Content-Type')
+      ?? (body instanceof Blob ? body.type : '');
+    if (!isCompressible(contentType, types)) return;
+
+    // The representation now depends on Accept-Encoding, even when not compressed
+    res.vary('Accept-Encoding');
+
+    const size = typeof body === 'string'
+      ? Buffer.byteLength(body)
+      : body instanceof Blob ? body.size : null;
+    if (size !== null && size < threshold) return;
+
+    const encoding = negotiateEncoding(req.headers.get('Accept-Encoding'), encodings);
+    if (!encoding) return;
+
+    if (typeof body === 'string') {
+      const compressed = COMPRESSORS[encoding](Buffer.from(body));
+      res.body = new Blob([compressed]);
+      res.header('Content-Length', String(compressed.length));
+    } else {
+      const stream = body instanceof Blob ? body.stream() : body;
+      res.body = stream.pipeThrough(new CompressionStream(STREAM_FORMATS[encoding] as CompressionFormat));
+      res.headers.delete('Content-Length');
+    }
+
+    if (!res.headers.has('Content-Type') && contentType) {
+      res.header('Content-Type', contentType);
+    }
+    res.header('Content-Encoding', encoding);
+
+    // A strong ETag identifies the uncompressed bytes
+    const etag = res.headers.get('ETag');
+    if (etag && !etag.startsWith('W/')) {
+      res.header('ETag', `W/${etag}`);
+    }
+  };
+}
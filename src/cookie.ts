@@ -0,0 +1,141 @@
+// cookie.ts - Cookie parsing, serialization, signing and encryption for Halin
+// Signed cookies carry an HMAC-SHA256 of name and value ("s:" prefix) and
+// encrypted cookies are AES-256-GCM sealed ("e:" prefix). The first secret is
+// used for new cookies; all secrets are accepted when reading, so keys can be
+// rotated by prepending a new one.
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export interface CookieOptions {
+  domain?: string;
+  // Defaults to '/'
+  path?: string;
+  expires?: Date;
+  // Lifetime in seconds
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None' | 'strict' | 'lax' | 'none';
+  partitioned?: boolean;
+  // Sign the value so tampering is detected (needs cookieSecret)
+  signed?: boolean;
+  // Encrypt the value so the client cannot read it (needs cookieSecret)
+  encrypted?: boolean;
+}
+
+const SIGNED_PREFIX = 's:';
+const ENCRYPTED_PREFIX = 'e:';
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index < 0) continue;
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (!name || name in cookies) continue;
+
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new Error(`Invalid cookie name: ${name}`);
+  }
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+
+  if (options.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  if (options.domain) cookie += `; Domain=${options.domain}`;
+  cookie += `; Path=${options.path ?? '/'}`;
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.httpOnly) cookie += '; HttpOnly';
+  if (options.secure) cookie += '; Secure';
+  if (options.sameSite) {
+    const sameSite = options.sameSite.toLowerCase();
+    cookie += `; SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`;
+  }
+  if (options.partitioned) cookie += '; Partitioned';
+
+  return cookie;
+}
+
+function requireSecrets(secrets: string[]): void {
+  if (secrets.length === 0) {
+    throw new Error('Signed and encrypted cookies require the cookieSecret option');
+  }
+}
+
+function signature(name: string, value: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${name}=${value}`).digest('base64url');
+}
+
+function encryptionKey(secret: string): Buffer {
+  return createHash('sha256').update(`halin-cookie:${secret}`).digest();
+}
+
+export function signCookie(name: string, value: string, secrets: string[]): string {
+  requireSecrets(secrets);
+  return `${SIGNED_PREFIX}${value}.${signature(name, value, secrets[0])}`;
+}
+
+export function encryptCookie(name: string, value: string, secrets: string[]): string {
+  requireSecrets(secrets);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(secrets[0]), iv);
+  // The cookie name is authenticated so a value cannot be moved to another cookie
+  cipher.setAAD(Buffer.from(name));
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return `${ENCRYPTED_PREFIX}${Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url')}`;
+}
+
+// Returns the original value of a signed or encrypted cookie, or null when it
+// is plain, tampered with, or sealed with an unknown secret
+export function unsealCookie(name: string, value: string, secrets: string[]): string | null {
+  if (value.startsWith(SIGNED_PREFIX)) {
+    const index = value.lastIndexOf('.');
+    if (index < 0) return null;
+    const raw = value.slice(SIGNED_PREFIX.length, index);
+    const mac = Buffer.from(value.slice(index + 1));
+
+    for (const secret of secrets) {
+      const expected = Buffer.from(signature(name, raw, secret));
+      if (expected.length === mac.length && timingSafeEqual(expected, mac)) {
+        return raw;
+      }
+    }
+    return null;
+  }
+
+  if (value.startsWith(ENCRYPTED_PREFIX)) {
+    const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64url');
+    if (data.length < 28) return null;
+
+    for (const secret of secrets) {
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', encryptionKey(secret), data.subarray(0, 12));
+        decipher.setAAD(Buffer.from(name));
+        decipher.setAuthTag(data.subarray(12, 28));
+        return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+      } catch {
+        // Try the next secret
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,113 @@
+// cors.ts - Configurable CORS middleware for Halin
+// Register it globally or on a group; preflight requests are answered for
+// every route without registering options() handlers.
+
+import type { Handler, Request } from './halin';
+
+type OriginMatcher = string | RegExp;
+
+export interface CorsOptions {
+  // Allowed origins: '*', an exact origin, a RegExp, a list of those, or a
+  // function returning true/false or the origin to send back (default '*')
+  origin?: OriginMatcher | OriginMatcher[] | ((origin: string, req: Request) => boolean | string | Promise<boolean | string>);
+  // Methods allowed in preflight responses
+  methods?: string[];
+  // Headers allowed in preflight responses (default: echo the requested ones)
+  allowedHeaders?: string[];
+  // Response headers the browser may read
+  exposedHeaders?: string[];
+  // Send Access-Control-Allow-Credentials: true
+  credentials?: boolean;
+  // How long browsers may cache a preflight response, in seconds
+  maxAge?: number;
+  // Pass preflight requests on to the route instead of answering them
+  preflightContinue?: boolean;
+  // Status for answered preflight requests (default 204)
+  optionsSuccessStatus?: number;
+}
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'];
+
+function matchesOrigin(origin: string, matcher: OriginMatcher): boolean {
+  return typeof matcher === 'string' ? matcher === origin : matcher.test(origin);
+}
+
+export function cors(options: CorsOptions = {}): Handler {
+  const allowed = options.origin ?? '*';
+  const methods = (options.methods ?? DEFAULT_METHODS).join(', ');
+
+  // Origin value to send back, or null when the origin is not allowed
+  const resolveOrigin = async (origin: string, req: Request): Promise<string | null> => {
+    if (allowed === '*') {
+      // Browsers reject '*' together with credentials, so echo the origin instead
+      return options.credentials ? origin : '*';
+    }
+    if (typeof allowed === 'function') {
+      const result = await allowed(origin, req);
+      return typeof result === 'string' ? result : result ? origin : null;
+    }
+    if (typeof allowed === 'string') {
+      return allowed;
+    }
+    const matchers = Array.isArray(allowed) ? allowed : [allowed];
+    return matchers.some(matcher => matchesOrigin(origin, matcher)) ? origin : null;
+  };
+
+  return async (req, res, next) => {
+    const origin = req.headers.get('Origin');
+
+    // The response depends on Origin unless every origin gets '*'
+    if (allowed !== '*' || options.credentials) {
+      res.vary('Origin');
+    }
+
+    if (!origin) {
+      await next?.();
+      return;
+    }
+
+    const allowOrigin = await resolveOrigin(origin, req);
+    const isPreflight = req.method === 'OPTIONS' && req.headers.has('Access-Control-Request-Method');
+
+    if (allowOrigin !== null) {
+      res.header('Access-Control-Allow-Origin', allowOrigin);
+      if (options.credentials) {
+        res.header('Access-Control-Allow-Credentials', 'true');
+      }
+    }
+
+    if (!isPreflight) {
+      if (allowOrigin !== null && options.exposedHeaders?.length) {
+        res.header('Access-Control-Expose-Headers', options.exposedHeaders.join(', '));
+      }
+      await next?.();
+      return;
+    }
+
+    if (allowOrigin !== null) {
+      res.header('Access-Control-Allow-Methods', methods);
+
+      if (options.allowedHeaders) {
+        res.header('Access-Control-Allow-Headers', options.allowedHeaders.join(', '));
+      } else {
+        const requested = req.headers.get('Access-Control-Request-Headers');
+        res.vary('Access-Control-Request-Headers');
+        if (requested) {
+          res.header('Access-Control-Allow-Headers', requested);
+        }
+      }
+
+      if (options.maxAge !== undefined) {
+        res.header('Access-Control-Max-Age', String(options.maxAge));
+      }
+    }
+
+    if (options.preflightContinue) {
+      await next?.();
+      return;
+    }
+
+    res.status(options.optionsSuccessStatus ?? 204);
+    res.headers.set('Content-Length', '0');
+  };
+}
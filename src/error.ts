@@ -0,0 +1,9 @@
+// error.ts - Error type used by Halin to carry an HTTP status
+
+export class HalinError extends Error {
+  // details is serialized next to the message in the default error response
+  constructor(public statusCode: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'HalinError';
+  }
+}
@@ -0,0 +1,144 @@
+// etag.ts - ETags and conditional requests for Halin
+// Buffered GET and HEAD responses get an ETag computed from their body, and
+// If-None-Match / If-Modified-Since are answered with 304 Not Modified.
+// On unsafe methods the preconditions (If-Match, If-Unmodified-Since,
+// If-None-Match) are checked as soon as the handler sets ETag or
+// Last-Modified for the current version of the resource, so a failed check
+// stops the handler before it changes anything. Each validator is checked
+// the first time it is set only; later values describe the new version.
+
+import { createHash } from 'node:crypto';
+import { HalinError } from './error';
+import type { Handler, Request, Response } from './halin';
+
+export interface ETagOptions {
+  // Generate weak ETags (W/"...") instead of strong ones (default false)
+  weak?: boolean;
+  // Largest Blob body hashed, in bytes (default 1 MiB); larger Blobs get no
+  // ETag. Files (Bun.file()) are never read: their tag comes from size and mtime.
+  maxHashSize?: number;
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
+
+// Compare an If-Match / If-None-Match header against an ETag. The strong
+// comparison used by If-Match never matches weak tags.
+function matchesETag(header: string, etag: string, strong: boolean): boolean {
+  if (header.trim() === '*') return true;
+  if (strong && etag.startsWith('W/')) return false;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => strong ? tag.trim() === etag : opaque(tag) === opaque(etag));
+}
+
+// Weak tag from a file's size and mtime, as sendFile() sends it
+function fileETag(file: Blob & { lastModified: number }): string {
+  return `W/"${file.size.toString(16)}-${file.lastModified.toString(16)}"`;
+}
+
+function isFile(body: Blob): body is Blob & { name: string; lastModified: number } {
+  const file = body as Blob & { name?: unknown; lastModified?: unknown };
+  return typeof file.name === 'string' && typeof file.lastModified === 'number';
+}
+
+function bodyETag(data: string | Uint8Array, weak: boolean): string {
+  const size = typeof data === 'string' ? Buffer.byteLength(data) : data.length;
+  const hash = createHash('sha1').update(data).digest('base64url');
+  const tag = `"${size.toString(16)}-${hash}"`;
+  return weak ? `W/${tag}` : tag;
+}
+
+// Throw a 412 HalinError when the request's preconditions fail against the
+// current ETag or Last-Modified of the resource
+function checkPreconditions(req: Request, field: 'etag' | 'last-modified', value: string): void {
+  const ifMatch = req.headers.get('If-Match');
+
+  if (field === 'etag') {
+    if (ifMatch !== null && !matchesETag(ifMatch, value, true)) {
+      throw new HalinError(412, 'Precondition Failed');
+    }
+    // If-None-Match: * on PUT creates a resource only if it does not exist yet
+    const ifNoneMatch = req.headers.get('If-None-Match');
+    if (ifNoneMatch !== null && matchesETag(ifNoneMatch, value, false)) {
+      throw new HalinError(412, 'Precondition Failed');
+    }
+    return;
+  }
+
+  // If-Unmodified-Since is ignored when If-Match is present
+  const unmodifiedSince = Date.parse(req.headers.get('If-Unmodified-Since') ?? '');
+  if (ifMatch === null && !Number.isNaN(unmodifiedSince) && Date.parse(value) > unmodifiedSince) {
+    throw new HalinError(412, 'Precondition Failed');
+  }
+}
+
+function isFresh(req: Request, res: Response): boolean {
+  const etag = res.headers.get('ETag');
+  const noneMatch = req.headers.get('If-None-Match');
+  if (noneMatch !== null) {
+    return etag !== null && matchesETag(noneMatch, etag, false);
+  }
+
+  const modifiedSince = Date.parse(req.headers.get('If-Modified-Since') ?? '');
+  const lastModified = Date.parse(res.headers.get('Last-Modified') ?? '');
+  return !Number.isNaN(modifiedSince) && lastModified <= modifiedSince;
+}
+
+// Opt-in ETag and conditional request handling. ETags and Last-Modified set
+// by handlers (e.g. from a row version) are kept and used for the checks.
+// Only res.header() triggers the checks; res.headers.set() bypasses them.
+//
+//   app.put('/items/:id', etag(), async (req, res) => {
+//     const item = await db.find(req.params.id);
+//     res.header('ETag', `"${item.version}"`);  // 412 here if If-Match differs
+//     const updated = await db.update(item.id, req.body);
+//     res.header('ETag', `"${updated.version}"`);  // not checked again
+//   })
+export function etag(options: ETagOptions = {}): Handler {
+  const weak = options.weak ?? false;
+  const maxHashSize = options.maxHashSize ?? 1024 * 1024;
+
+  return async (req, res, next) => {
+    if (!SAFE_METHODS.has(req.method)) {
+      const header = res.header;
+      const checked = new Set<string>();
+      res.header = (name, value) => {
+        header.call(res, name, value);
+        const field = name.toLowerCase();
+        if ((field === 'etag' || field === 'last-modified') && !checked.has(field)) {
+          checked.add(field);
+          checkPreconditions(req, field, value);
+        }
+        return res;
+      };
+      try {
+        await next?.();
+      } finally {
+        res.header = header;
+      }
+      return;
+    }
+
+    await next?.();
+
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || res.statusCode !== 200) return;
+
+    const body = res.body;
+    if (!res.headers.has('ETag')) {
+      if (typeof body === 'string') {
+        res.header('ETag', bodyETag(body, weak));
+      } else if (body instanceof Blob && isFile(body)) {
+        res.header('ETag', fileETag(body));
+      } else if (body instanceof Blob && body.size <= maxHashSize) {
+        res.header('ETag', bodyETag(new Uint8Array(await body.arrayBuffer()), weak));
+      }
+    }
+
+    if (isFresh(req, res)) {
+      res.status(304);
+      res.body = null;
+      res.headers.delete('Content-Type');
+      res.headers.delete('Content-Length');
+    }
+  };
+}
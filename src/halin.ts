@@ -1,26 +1,235 @@
 // halin.ts - A lightweight TypeScript web framework for Bun
 // Inspired by Express and Hono
 
+import type { Server, ServerWebSocket } from 'bun';
+import {
+  BodyReader,
+  findParser,
+  jsonParser,
+  textParser,
+  urlencodedParser,
+  type BodyParser
+} from './body';
+import {
+  encryptCookie,
+  parseCookies,
+  serializeCookie,
+  signCookie,
+  unsealCookie,
+  type CookieOptions
+} from './cookie';
+import { HalinError } from './error';
+import { Logger, type AccessLogOptions, type LoggerOptions } from './logger';
+import { getBoundary, parseMultipart, type MultipartOptions, type UploadedFile } from './multipart';
+import {
+  mediaType,
+  preferredCharsets,
+  preferredEncodings,
+  preferredLanguages,
+  preferredMediaTypes
+} from './negotiate';
+import { ANY_METHOD, Router } from './router';
+import type { RouteMeta } from './openapi';
+import { missingSession, type Session } from './session';
+import { SSEWriter, type SSEOptions, type SSEResponse } from './sse';
+import { sendFile, type FileOptions } from './static';
+import { schemasOf, type ValidationSchemas } from './validator';
+import {
+  WS_METHOD,
+  createWebSocketHandler,
+  isWebSocketUpgrade,
+  upgradeHandler,
+  type WebSocketArgs,
+  type WebSocketHandlers
+} from './websocket';
+
+export { HalinError };
+export { compress } from './compress';
+export { cors } from './cors';
+export { etag } from './etag';
+export { Logger } from './logger';
+export { SSEHub, MemoryBackend } from './hub';
+export { generateOpenAPI, openapi, apiDocs } from './openapi';
+export { rateLimit, MemoryRateLimitStore, SqliteRateLimitStore } from './ratelimit';
+export { session, MemoryStore, SqliteStore } from './session';
+export { serveStatic } from './static';
+export { validate, s, Schema } from './validator';
+export type { BodyParser } from './body';
+export type { CompressOptions, Encoding } from './compress';
+export type { CookieOptions } from './cookie';
+export type { CorsOptions } from './cors';
+export type { ETagOptions } from './etag';
+export type { SSEHubBackend, SSEHubOptions } from './hub';
+export type { AccessLogOptions, LogFields, LoggerOptions, LogLevel } from './logger';
+export type { MultipartOptions, UploadedFile } from './multipart';
+export type { ApiDocsOptions, OpenAPIDocument, OpenAPIOptions, RouteMeta, RouteResponse } from './openapi';
+export type { RateLimitAlgorithm, RateLimitOptions, RateLimitState, RateLimitStore } from './ratelimit';
+export type { Session, SessionData, SessionOptions, SessionStore, StoredSession } from './session';
+export type { SSEMessage, SSEOptions, SSEResponse } from './sse';
+export type { FileOptions, StaticOptions } from './static';
+export type { Infer, JSONSchema, SchemaLike, ValidationIssue, ValidationSchemas, ValidatedRequest } from './validator';
+export type { HalinWebSocket, WebSocketArgs, WebSocketData, WebSocketHandlers } from './websocket';
+
 // Types
 type HTTPMethod = string; // Allow any HTTP method string
-type Handler = (req: Request, res: Response, next?: NextFunction) => Promise<void> | void;
-type NextFunction = () => Promise<void>;
-type ErrorHandler = (error: Error, req: Request, res: Response, next: NextFunction) => Promise<void> | void;
 
-// Update type safety for request handler
-type ResponseType = Response | SSEWriter;
+// Infer route params from a path literal, e.g. '/users/:id' -> { id: string }
+export type ExtractParams<Path extends string> =
+  string extends Path
+    ? Record<string, string>
+    : Path extends `${string}:${infer Param}/${infer Rest}`
+      ? { [K in Param]: string } & ExtractParams<Rest>
+      : Path extends `${string}:${infer Param}`
+        ? { [K in Param]: string }
+        : {};
 
 // Export type definitions
-export type Handler = (req: Request, res: Response, next?: NextFunction) => Promise<void> | void;
+export type Handler<P = Record<string, string>> = (req: Request<P>, res: Response, next?: NextFunction) => Promise<void> | void;
 export type NextFunction = () => Promise<void>;
 export type ErrorHandler = (error: Error, req: Request, res: Response, next: NextFunction) => Promise<void> | void;
 
+// Lifecycle hooks registered with onRequest(), preHandler(), onSend(),
+// onResponse() and onError(), on the app or a group
+export type Hook<P = Record<string, string>> = (req: Request<P>, res: Response) => Promise<void> | void;
+export type ErrorHook = (error: Error, req: Request, res: Response) => Promise<void> | void;
+
+// Route handlers, optionally followed by a RouteOptions object
+export type RouteArgs<P = Record<string, string>> = Handler<P>[] | [...Handler<P>[], RouteOptions];
+
 // Interfaces
+export interface HalinOptions {
+  // Maximum request body size in bytes; larger bodies get 413
+  bodyLimit?: number;
+  // Parse the body into req.body before route handlers run (default true).
+  // When false, handlers read it on demand with req.parseBody(), req.json(), ...
+  parseBody?: boolean;
+  // Limits and disk storage for multipart/form-data uploads
+  multipart?: MultipartOptions;
+  // Secret(s) for signed and encrypted cookies. The first one seals new
+  // cookies; older ones are still accepted so keys can be rotated.
+  cookieSecret?: string | string[];
+  // Logger for req.log and the framework's own errors, or options for one
+  logger?: Logger | LoggerOptions;
+  // Log a line per request with status, bytes and duration (default false)
+  accessLog?: boolean | AccessLogOptions;
+}
+
+export interface CloseOptions {
+  // Milliseconds to wait for in-flight requests before the remaining
+  // connections are cut (default 10000)
+  timeout?: number;
+  // Data of the final 'shutdown' event sent to open event streams, and
+  // reason WebSockets are closed with (default 'Server shutting down')
+  reason?: string;
+}
+
+export interface RouteOptions {
+  // Name for building the route's URL with app.url() and res.redirect()
+  name?: string;
+  // Overrides HalinOptions.bodyLimit for this route
+  bodyLimit?: number;
+  // Overrides HalinOptions.parseBody for this route
+  parseBody?: boolean;
+  // Documentation and custom data, returned by app.routes() and used for
+  // OpenAPI documents
+  meta?: RouteMeta;
+}
+
+// A registered route as listed by app.routes()
+export interface RouteInfo {
+  // HTTP method, '*' for all() routes and 'WS' for ws() routes
+  method: string;
+  // Full path pattern, including group and mount prefixes
+  path: string;
+  name: string | null;
+  // Prefix of the group the route was registered in, null outside groups
+  group: string | null;
+  meta: RouteMeta;
+  // Schemas checked by validate() handlers of the route
+  schemas: ValidationSchemas;
+}
+
+// Values for a named route's :params ('*' fills a wildcard)
+export type RouteParams = Record<string, string | number>;
+
+export interface UrlOptions {
+  // Query string parameters; undefined values are left out
+  query?: Record<string, string | number | boolean | undefined>;
+}
+
+export interface RedirectOptions extends UrlOptions {
+  // Defaults to 302
+  status?: number;
+}
+
 interface RouteDefinition {
   method: HTTPMethod;
   path: string;
-  pattern: RegExp;
+  // Group middleware followed by the route's own handlers
   handlers: Handler[];
+  // Group middleware alone, also run for automatic OPTIONS responses
+  middlewares: Handler[];
+  // Group error handlers, innermost group first; they run before the app's
+  errorHandlers: ErrorHandler[];
+  options: RouteOptions;
+  group: string | null;
+  // Hooks of the route's group and its enclosing groups
+  hooks: Hooks;
+  // Set on the routes mount() adds for an app
+  mount?: Halin;
+}
+
+interface Hooks {
+  onRequest: Hook[];
+  preHandler: Hook[];
+  onSend: Hook[];
+  onResponse: Hook[];
+  onError: ErrorHook[];
+}
+
+function createHooks(): Hooks {
+  return { onRequest: [], preHandler: [], onSend: [], onResponse: [], onError: [] };
+}
+
+// Hooks of enclosing groups run before those of the group itself
+function mergeHooks(outer: Hooks, inner: Hooks): Hooks {
+  return {
+    onRequest: [...outer.onRequest, ...inner.onRequest],
+    preHandler: [...outer.preHandler, ...inner.preHandler],
+    onSend: [...outer.onSend, ...inner.onSend],
+    onResponse: [...outer.onResponse, ...inner.onResponse],
+    onError: [...outer.onError, ...inner.onError]
+  };
+}
+
+// What a group adds to each of its routes
+interface GroupScope {
+  prefix: string;
+  middlewares: Handler[];
+  errorHandlers: ErrorHandler[];
+  hooks: Hooks;
+}
+
+// Route registration the app hands to its groups, which have no access to
+// its private members
+interface GroupRoutes {
+  add(method: HTTPMethod, path: string, args: RouteArgs, scope: GroupScope): void;
+  ws(path: string, args: WebSocketArgs, scope: GroupScope): void;
+}
+
+// Route for requests that no route handles. Unknown paths and methods still
+// pass through global middleware (e.g. serveStatic, cors(), rateLimit()) and
+// end in the error if none of it responds.
+function rejectRoute(statusCode: number, message: string): Pick<RouteDefinition, 'handlers' | 'middlewares' | 'errorHandlers' | 'options' | 'hooks'> {
+  return {
+    handlers: [() => {
+      throw new HalinError(statusCode, message);
+    }],
+    middlewares: [],
+    errorHandlers: [],
+    options: { parseBody: false },
+    hooks: createHooks()
+  };
 }
 
 interface RouteMatch {
@@ -28,6 +237,16 @@ interface RouteMatch {
   params: Record<string, string>;
 }
 
+// Picks the best of the offered values for a request header, or false when
+// none is acceptable; without offers it lists the accepted values, best first
+export interface AcceptsFunction {
+  (): string[];
+  (...offers: (string | string[])[]): string | false;
+}
+
+// Handlers for res.format() by media type or short name ('json', 'html', ...)
+export type FormatHandlers = Record<string, () => void | Promise<void>>;
+
 interface BunRequest extends globalThis.Request {
   json(): Promise<any>;
   formData(): Promise<FormData>;
@@ -35,38 +254,78 @@ interface BunRequest extends globalThis.Request {
 }
 
 // Update the Request interface
-interface Request {
+export interface Request<P = Record<string, string>> {
+  // Request ID, taken from X-Request-ID when the client sent a valid one
+  id: string;
+  // Logger whose records carry the request ID, method and path
+  log: Logger;
   method: string;
   url: string;
+  // Path below the mount point of the app handling the request
   path: string;
-  params: Record<string, string>;
+  // Prefix the handling app is mounted at ('' outside mounted apps)
+  baseUrl: string;
+  params: P;
   query: Record<string, string>;
   headers: Headers;
+  // Client address, known when the app runs on a Bun server
+  ip: string | null;
+  // Plain cookies as sent by the client
+  cookies: Record<string, string>;
+  // Signed and encrypted cookies that verified against cookieSecret
+  signedCookies: Record<string, string>;
   body: any;
+  files: Record<string, UploadedFile[]>;
+  // Per-request storage for middleware and handlers; ws() routes receive it as ws.data.state
+  state: Record<string, unknown>;
+  // Set by the session() middleware
+  session: Session;
   raw: BunRequest;
+  valid: Record<string, any>;
+  // Body readers; the raw body is read once, on first use, and cached
   json(): Promise<any>;
+  text(): Promise<string>;
+  formData(): Promise<FormData>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+  // Raw body stream for streaming parsers; cannot be combined with the readers above
+  stream(): ReadableStream<Uint8Array> | null;
+  // Parse the body with the parser registered for its Content-Type (cached)
+  parseBody(): Promise<any>;
+  // Content negotiation with q-values: accepts('json', 'html') picks from
+  // Accept, the others from Accept-Language, Accept-Encoding and Accept-Charset
+  accepts: AcceptsFunction;
+  acceptsLanguages: AcceptsFunction;
+  acceptsEncodings: AcceptsFunction;
+  acceptsCharsets: AcceptsFunction;
 }
 
-interface Response {
+export interface Response {
   statusCode: number;
   headers: Headers;
-  body: string | null | ReadableStream;
+  body: string | null | ReadableStream | Blob;
   status: (code: number) => Response;
   header: (name: string, value: string) => Response;
+  // Add a field to the Vary header without duplicating it
+  vary: (field: string) => Response;
   json: (data: any) => Response;
   text: (data: string) => Response;
   send: (data: any) => Response;
   stream: (stream: ReadableStream) => Response;
-  sse: () => SSEResponse;
-}
-
-// Add SSE (Server-Sent Events) interface
-interface SSEResponse {
-  statusCode: number;
-  headers: Headers;
-  body: ReadableStream;
-  send: (data: any) => void;
-  close: () => void;
+  // Redirect to a URL, or to a named route with its params
+  redirect: {
+    (url: string, status?: number): Response;
+    (name: string, params: RouteParams, options?: RedirectOptions): Response;
+  };
+  // Send a file from disk with ETag, Last-Modified and Range support
+  file: (path: string, options?: FileOptions) => Promise<Response>;
+  // Run the handler for the type the client prefers, with Content-Type set
+  // to it. The 'default' handler runs when none is acceptable; without one
+  // a 406 HalinError is thrown.
+  format: (handlers: FormatHandlers) => Promise<Response>;
+  // Start an event stream; status and headers already set on res are kept
+  sse: (options?: SSEOptions) => SSEResponse;
+  cookie: (name: string, value: string, options?: CookieOptions) => Response;
+  clearCookie: (name: string, options?: CookieOptions) => Response;
 }
 
 interface CustomResponse extends Response {
@@ -77,64 +336,353 @@ interface CustomResponse extends Response {
   sse: () => SSEResponse;
 }
 
-class SSEWriter implements SSEResponse {
-  statusCode: number = 200;
-  headers: Headers;
-  body: ReadableStream;
-  private controller!: ReadableStreamDefaultController;
-  private encoder: TextEncoder;
-  private closed: boolean = false;
-
-  constructor() {
-    this.headers = new Headers({
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    });
-    this.encoder = new TextEncoder();
-    
-    const self = this;
-    this.body = new ReadableStream({
-      start(controller) {
-        self.controller = controller;
-      },
-      cancel() {
-        self.closed = true;
+function negotiator(headers: Headers, name: string, choose: (header: string | null, offers: string[]) => string[]): AcceptsFunction {
+  return ((...offers: (string | string[])[]) => {
+    const flat = offers.flat();
+    const accepted = choose(headers.get(name), flat);
+    return flat.length === 0 ? accepted : accepted[0] ?? false;
+  }) as AcceptsFunction;
+}
+
+// Create the request object handed to middleware and handlers
+function createRequest(
+  request: globalThis.Request,
+  url: URL,
+  body: BodyReader,
+  parse: (req: Request) => Promise<any>,
+  secrets: string[],
+  id: string,
+  log: Logger
+): Request {
+  let json: Promise<any> | undefined;
+  let formData: Promise<FormData> | undefined;
+  let parsed: Promise<any> | undefined;
+  let cookies: { plain: Record<string, string>; signed: Record<string, string> } | undefined;
+
+  // Cookies are parsed, and sealed ones verified, on first access
+  const readCookies = () => {
+    if (!cookies) {
+      cookies = { plain: {}, signed: {} };
+      for (const [name, value] of Object.entries(parseCookies(request.headers.get('Cookie')))) {
+        // Values that do not verify stay readable as plain cookies; they may
+        // just look signed ("s:dark"), and are never trusted
+        const unsealed = unsealCookie(name, value, secrets);
+        if (unsealed !== null) {
+          cookies.signed[name] = unsealed;
+        } else {
+          cookies.plain[name] = value;
+        }
       }
-    });
+    }
+    return cookies;
+  };
+
+  const req: Request = {
+    id,
+    log,
+    method: request.method,
+    url: request.url,
+    path: url.pathname,
+    baseUrl: '',
+    params: {},
+    query: Object.fromEntries(url.searchParams),
+    headers: request.headers,
+    ip: null,
+    get cookies() {
+      return readCookies().plain;
+    },
+    get signedCookies() {
+      return readCookies().signed;
+    },
+    body: null,
+    files: {},
+    state: {},
+    session: missingSession,
+    raw: request as BunRequest,
+    valid: {},
+    json: () => json ??= body.text().then(text => {
+      try {
+        return JSON.parse(text);
+      } catch (err) {
+        throw new HalinError(400, `Invalid request body: ${(err as Error).message}`);
+      }
+    }),
+    text: () => body.text(),
+    formData: () => formData ??= body.formData(),
+    arrayBuffer: () => body.arrayBuffer(),
+    stream: () => body.stream(),
+    parseBody: () => parsed ??= parse(req),
+    accepts: negotiator(request.headers, 'Accept', preferredMediaTypes),
+    acceptsLanguages: negotiator(request.headers, 'Accept-Language', preferredLanguages),
+    acceptsEncodings: negotiator(request.headers, 'Accept-Encoding', preferredEncodings),
+    acceptsCharsets: negotiator(request.headers, 'Accept-Charset', preferredCharsets)
+  };
+  return req;
+}
+
+// Create the response object; onSSE receives the writer when res.sse() is used
+// and urlFor builds named route URLs (null for unknown names)
+function createResponse(
+  req: Request,
+  onSSE: (writer: SSEWriter) => void,
+  secrets: string[],
+  urlFor: (name: string, params: RouteParams, options: UrlOptions) => string | null
+): Response {
+  return {
+    statusCode: 200,
+    headers: new Headers(),
+    body: null,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    header(name: string, value: string) {
+      // Multiple Set-Cookie headers must not replace each other
+      if (name.toLowerCase() === 'set-cookie') {
+        this.headers.append(name, value);
+      } else {
+        this.headers.set(name, value);
+      }
+      return this;
+    },
+    vary(field: string) {
+      const current = this.headers.get('Vary');
+      if (!current) {
+        this.headers.set('Vary', field);
+      } else if (current !== '*' && !current.toLowerCase().split(/\s*,\s*/).includes(field.toLowerCase())) {
+        this.headers.set('Vary', `${current}, ${field}`);
+      }
+      return this;
+    },
+    json(data: any) {
+      this.header('Content-Type', 'application/json');
+      this.body = JSON.stringify(data);
+      return this;
+    },
+    text(data: string) {
+      this.header('Content-Type', 'text/plain');
+      this.body = data;
+      return this;
+    },
+    send(data: any) {
+      if (typeof data === 'object') {
+        return this.json(data);
+      }
+      // Keep a Content-Type chosen earlier, e.g. by res.format()
+      if (this.headers.has('Content-Type')) {
+        this.body = String(data);
+        return this;
+      }
+      return this.text(String(data));
+    },
+    stream(stream: ReadableStream) {
+      this.body = stream;
+      return this;
+    },
+    redirect(target: string, paramsOrStatus?: RouteParams | number, options: RedirectOptions = {}) {
+      const params = typeof paramsOrStatus === 'object' ? paramsOrStatus : {};
+      const location = urlFor(target, params, options);
+      if (location === null && typeof paramsOrStatus === 'object') {
+        throw new Error(`Unknown route name: ${target}`);
+      }
+      this.status(typeof paramsOrStatus === 'number' ? paramsOrStatus : options.status ?? 302);
+      this.header('Location', location ?? target);
+      this.body = null;
+      return this;
+    },
+    file(path: string, options: FileOptions = {}) {
+      return sendFile(req, this, path, options);
+    },
+    async format(handlers: FormatHandlers) {
+      const types = Object.keys(handlers).filter(type => type !== 'default');
+      this.vary('Accept');
+
+      const [type] = preferredMediaTypes(req.headers.get('Accept'), types);
+      if (type === undefined) {
+        if (!handlers.default) {
+          throw new HalinError(406, 'Not Acceptable', types.map(mediaType));
+        }
+        await handlers.default();
+        return this;
+      }
+
+      this.header('Content-Type', mediaType(type));
+      await handlers[type]();
+      return this;
+    },
+    sse(options: SSEOptions = {}) {
+      const writer = new SSEWriter(req.headers.get('Last-Event-ID'), options, this.headers, req.log);
+      writer.statusCode = this.statusCode;
+      onSSE(writer);
+      return writer;
+    },
+    cookie(name: string, value: string, options: CookieOptions = {}) {
+      let sealed = value;
+      if (options.encrypted) {
+        sealed = encryptCookie(name, value, secrets);
+      } else if (options.signed) {
+        sealed = signCookie(name, value, secrets);
+      }
+      return this.header('Set-Cookie', serializeCookie(name, sealed, options));
+    },
+    clearCookie(name: string, options: CookieOptions = {}) {
+      return this.header('Set-Cookie', serializeCookie(name, '', {
+        ...options,
+        expires: new Date(0),
+        maxAge: 0
+      }));
+    }
+  };
+}
+
+// Fill in a route path's :params and wildcard, percent-encoding the values
+function buildPath(name: string, path: string, params: RouteParams): string {
+  return path.split('/').map(segment => {
+    if (segment === '*') {
+      return String(params['*'] ?? '').split('/').map(encodeURIComponent).join('/');
+    }
+    if (!segment.startsWith(':')) return segment;
+
+    const value = params[segment.slice(1)];
+    if (value === undefined || value === '') {
+      throw new Error(`Missing param "${segment.slice(1)}" for route ${name}`);
+    }
+    return encodeURIComponent(String(value));
+  }).join('/');
+}
+
+// Body reader of each request, for apps mounted below the one that created it
+const requestBodies = new WeakMap<Request, BodyReader>();
+
+// Hooks of the apps and groups a request passed through, outermost first,
+// for the onSend and onResponse hooks that run once it is handled
+const requestHooks = new WeakMap<Request, Hooks[]>();
+
+// Split route arguments into handlers and the optional trailing RouteOptions
+function splitRouteArgs(args: RouteArgs): { handlers: Handler[]; options: RouteOptions } {
+  const last = args[args.length - 1];
+  if (last !== undefined && typeof last !== 'function') {
+    return { handlers: args.slice(0, -1) as Handler[], options: { ...last } };
   }
+  return { handlers: args as Handler[], options: {} };
+}
 
-  send(data: any): void {
-    if (this.closed) return;
-    
-    const message = typeof data === 'string' ? data : JSON.stringify(data);
-    const encoded = this.encoder.encode(`data: ${message}\n\n`);
-    this.controller.enqueue(encoded);
+// Run middleware followed by route handlers, each one calling next() to continue
+async function runHandlers(handlers: Handler[], req: Request, res: Response): Promise<void> {
+  let index = 0;
+  const next: NextFunction = async () => {
+    if (index < handlers.length) {
+      const handler = handlers[index++];
+      await handler(req, res, next);
+    }
+  };
+  await next();
+}
+
+// Run hooks in order; one that throws stops the rest
+async function runHooks(hooks: Hook[], req: Request, res: Response): Promise<void> {
+  for (const hook of hooks) {
+    await hook(req, res);
   }
+}
 
-  close(): void {
-    if (!this.closed) {
-      this.closed = true;
-      this.controller.close();
+// onError hooks only observe errors, so their own failures are just logged
+async function runErrorHooks(hooks: ErrorHook[], error: Error, req: Request, res: Response): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await hook(error, req, res);
+    } catch (err) {
+      req.log.error('onError Error', { err });
     }
   }
 }
 
-export class HalinError extends Error {
-  constructor(public statusCode: number, message: string) {
-    super(message);
-    this.name = 'HalinError';
+// Final fallback when no error handler produced a response
+// Headers already set on res (e.g. Allow) are kept on the error response
+function sendError(err: unknown, res: Response, log: Logger): void {
+  const error = err instanceof Error ? err : new Error(String(err));
+  const statusCode = error instanceof HalinError ? error.statusCode : 500;
+
+  if (statusCode >= 500) {
+    log.error('Request Error', { err: error });
   }
+
+  // Messages of unexpected errors can carry internals (SQL, paths, stack
+  // details), so clients only see them in development
+  const body = error instanceof HalinError
+    ? JSON.stringify({ error: error.message || 'Internal Server Error', details: error.details })
+    : JSON.stringify({
+      error: 'Internal Server Error',
+      message: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  res.status(statusCode);
+  res.header('Content-Type', 'application/json');
+  res.header('Content-Length', String(Buffer.byteLength(body)));
+  res.body = body;
+}
+
+// Incoming request IDs are kept when they are short printable tokens
+function requestId(headers: Headers): string {
+  const incoming = headers.get('X-Request-ID');
+  return incoming && /^[\x21-\x7e]{1,200}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+// Size of a response body in bytes, null for streams
+function bodySize(body: Response['body']): number | null {
+  if (body === null) return 0;
+  if (typeof body === 'string') return Buffer.byteLength(body);
+  return body instanceof Blob ? body.size : null;
 }
 
 export class Halin {
-  private routes: RouteDefinition[] = [];
+  private router = new Router<RouteDefinition>();
   private middlewares: Handler[] = [];
   private errorHandlers: ErrorHandler[] = [];
+  private hooks = createHooks();
   private prefix: string = '';
   private currentGroupMiddlewares: Handler[] = [];
+  private parsers = new Map<string, BodyParser>([
+    ['application/json', jsonParser],
+    ['application/x-www-form-urlencoded', urlencodedParser],
+    ['multipart/form-data', req => this.parseMultipart(req)],
+    ['*/*', textParser]
+  ]);
+
+  private cookieSecrets: string[];
+  // Server the app is running on, known once listen() or fetch() received it
+  private server: Server<unknown> | null = null;
+  // Open connections and requests, for graceful shutdown
+  private sockets = new Set<ServerWebSocket<unknown>>();
+  private streams = new Set<SSEWriter>();
+  private inFlight = 0;
+  private onIdle: (() => void) | null = null;
+  private closing: Promise<void> | null = null;
+  private listenCallbacks: ((server: Server<unknown>) => void | Promise<void>)[] = [];
+  private closeCallbacks: (() => void | Promise<void>)[] = [];
+  private signalHandler: ((signal: NodeJS.Signals) => void) | null = null;
+  private signals: NodeJS.Signals[] = [];
+  // Every route in registration order, for routes()
+  private routeList: RouteDefinition[] = [];
+  private namedRoutes = new Map<string, RouteDefinition>();
+  // Route registered last, named by name()
+  private lastRoute: RouteDefinition | null = null;
+  private mounts: { prefix: string; app: Halin }[] = [];
+  // Where this app is mounted, for building its URLs
+  private parent: { prefix: string; app: Halin } | null = null;
+
+  // Socket handlers for Bun.serve; forwards events to the ws() routes
+  readonly websocket = createWebSocketHandler(this.sockets);
+  readonly log: Logger;
+
+  constructor(private config: HalinOptions = {}) {
+    this.cookieSecrets = config.cookieSecret === undefined ? [] : [config.cookieSecret].flat();
+    this.log = config.logger instanceof Logger ? config.logger : new Logger(config.logger);
+  }
 
-  // Middleware handling
+  // Middleware handling; error handlers (four arguments) need annotated
+  // parameters, separate overloads keep plain middleware typed
+  use(...handlers: Handler[]): Halin;
+  use(...handlers: ErrorHandler[]): Halin;
   use(...handlers: (Handler | ErrorHandler)[]): Halin {
     handlers.forEach(handler => {
       if (handler.length === 4) {
@@ -148,444 +696,671 @@ export class Halin {
     return this;
   }
 
-  // Convert path pattern to RegExp
-  private pathToPattern(path: string): RegExp {
-    const pattern = path
-      .replace(/\/:([^/]+)/g, '/([^/]+)') // Convert :param to capture group
-      .replace(/\*/g, '.*'); // Convert * to wildcard
-    return new RegExp(`^${pattern}$`);
+  // Register a body parser for a content type ('application/xml', 'text/*', '*/*')
+  parser(contentType: string, parser: BodyParser): Halin {
+    this.parsers.set(contentType.toLowerCase(), parser);
+    return this;
+  }
+
+  // Lifecycle hooks, run in this order for every request (see README):
+  // onRequest before routing, preHandler right before the route handlers,
+  // onError when anything throws, onSend before the response is built, and
+  // onResponse once it has been handed to the server
+  onRequest(hook: Hook): Halin {
+    this.hooks.onRequest.push(hook);
+    return this;
+  }
+
+  preHandler(hook: Hook): Halin {
+    this.hooks.preHandler.push(hook);
+    return this;
+  }
+
+  // Runs after the handlers and error handlers, including for the default
+  // error response; may change res.statusCode, res.headers and res.body
+  onSend(hook: Hook): Halin {
+    this.hooks.onSend.push(hook);
+    return this;
+  }
+
+  // For metrics and logging; the response can no longer change and errors
+  // are only logged
+  onResponse(hook: Hook): Halin {
+    this.hooks.onResponse.push(hook);
+    return this;
+  }
+
+  // Observes errors before the error handlers run; it cannot handle them
+  onError(hook: ErrorHook): Halin {
+    this.hooks.onError.push(hook);
+    return this;
   }
 
   // HTTP method handlers
-  private addRoute(method: HTTPMethod, path: string, ...handlers: Handler[]): Halin {
-    this.routes.push({
+  private addRoute(
+    method: HTTPMethod,
+    path: string,
+    args: RouteArgs,
+    middlewares: Handler[] = [],
+    errorHandlers: ErrorHandler[] = [],
+    group: string | null = null,
+    hooks: Hooks = createHooks()
+  ): Halin {
+    const { handlers, options } = splitRouteArgs(args);
+    const route: RouteDefinition = {
       method,
       path,
-      pattern: this.pathToPattern(path),
-      handlers
-    });
+      handlers: [...middlewares, ...handlers],
+      middlewares,
+      errorHandlers,
+      options,
+      group,
+      hooks
+    };
+    this.router.add(method, path, route);
+    this.routeList.push(route);
+    this.lastRoute = route;
+    if (options.name) {
+      this.nameRoute(route, options.name);
+    }
+    return this;
+  }
+
+  private nameRoute(route: RouteDefinition, name: string): void {
+    const existing = this.namedRoutes.get(name);
+    if (existing && existing !== route) {
+      throw new Error(`Route name "${name}" is already used by ${existing.method} ${existing.path}`);
+    }
+    route.options.name = name;
+    this.namedRoutes.set(name, route);
+  }
+
+  // Name the route registered last: app.get('/users/:id', show).name('user.show')
+  name(name: string): Halin {
+    if (!this.lastRoute) {
+      throw new Error('name() must follow a route registration');
+    }
+    this.nameRoute(this.lastRoute, name);
     return this;
   }
 
+  // Build the URL of a named route, including the prefix the app is mounted
+  // at; names of routes in mounted apps work too. Throws for unknown names
+  // and missing params.
+  url(name: string, params: RouteParams = {}, options: UrlOptions = {}): string {
+    const template = this.routePath(name);
+    if (template === null) {
+      throw new Error(`Unknown route name: ${name}`);
+    }
+    let prefix = '';
+    for (let mount = this.parent; mount; mount = mount.app.parent) {
+      prefix = mount.prefix + prefix;
+    }
+    // Mount prefixes can have params of their own
+    const path = buildPath(name, prefix + template, params);
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) query.append(key, String(value));
+    }
+    const search = query.toString();
+    return `${path}${search ? `?${search}` : ''}`;
+  }
+
+  // List the registered routes, followed by those of mounted apps with the
+  // mount prefix added
+  routes(): RouteInfo[] {
+    const own = this.routeList
+      .filter(route => !route.mount)
+      .map(route => ({
+        method: route.method,
+        path: route.path,
+        name: route.options.name ?? null,
+        group: route.group,
+        meta: { ...route.options.meta },
+        schemas: Object.assign({}, ...route.handlers.map(handler => schemasOf(handler) ?? {}))
+      }));
+
+    const mounted = this.mounts.flatMap(({ prefix, app }) => app.routes().map(route => ({
+      ...route,
+      path: `${prefix}${route.path}`,
+      group: route.group === null ? null : `${prefix}${route.group}`
+    })));
+
+    return [...own, ...mounted];
+  }
+
+  // Path pattern of a named route relative to this app, or null if unknown
+  private routePath(name: string): string | null {
+    const route = this.namedRoutes.get(name);
+    if (route) return route.path;
+
+    for (const { prefix, app } of this.mounts) {
+      const path = app.routePath(name);
+      if (path !== null) return `${prefix}${path}`;
+    }
+    return null;
+  }
+
   // Generic method handler
-  on(method: string, path: string, ...handlers: Handler[]): Halin {
-    return this.addRoute(method.toUpperCase(), path, ...handlers);
+  on<Path extends string>(method: string, path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.addRoute(method.toUpperCase(), path, args as RouteArgs);
   }
 
   // HTTP method handlers as shortcuts
-  get(path: string, ...handlers: Handler[]): Halin {
-    return this.on('GET', path, ...handlers);
+  get<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('GET', path, ...args);
   }
 
-  post(path: string, ...handlers: Handler[]): Halin {
-    return this.on('POST', path, ...handlers);
+  post<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('POST', path, ...args);
   }
 
-  put(path: string, ...handlers: Handler[]): Halin {
-    return this.on('PUT', path, ...handlers);
+  put<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('PUT', path, ...args);
   }
 
-  delete(path: string, ...handlers: Handler[]): Halin {
-    return this.on('DELETE', path, ...handlers);
+  delete<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('DELETE', path, ...args);
   }
 
-  patch(path: string, ...handlers: Handler[]): Halin {
-    return this.on('PATCH', path, ...handlers);
+  patch<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('PATCH', path, ...args);
   }
 
-  options(path: string, ...handlers: Handler[]): Halin {
-    return this.on('OPTIONS', path, ...handlers);
+  options<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('OPTIONS', path, ...args);
   }
 
-  head(path: string, ...handlers: Handler[]): Halin {
-    return this.on('HEAD', path, ...handlers);
+  head<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.on('HEAD', path, ...args);
   }
 
-  // Extract path parameters
-  private extractParams(route: RouteDefinition, path: string): Record<string, string> | null {
-    const match = path.match(route.pattern);
-    if (!match) return null;
+  // Route for every method that has no route of its own on the path
+  all<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<Path>>): Halin {
+    return this.addRoute(ANY_METHOD, path, args as RouteArgs);
+  }
 
-    const params: Record<string, string> = {};
-    const paramNames = route.path.match(/:[^/]+/g) || [];
-    
-    paramNames.forEach((param, index) => {
-      params[param.slice(1)] = match[index + 1];
-    });
-    
-    return params;
+  // WebSocket route: middleware runs on the upgrade request, then the
+  // connection is handed to the socket handlers
+  ws<Path extends string>(path: Path, ...args: WebSocketArgs<ExtractParams<Path>>): Halin {
+    return this.addWebSocketRoute(path, args as WebSocketArgs);
   }
 
-  // Route matching
-  private findRoute(method: HTTPMethod, path: string): RouteMatch | null {
-    for (const route of this.routes) {
-      if (route.method === method) {
-        const params = this.extractParams(route, path);
-        if (params !== null) {
-          return { route, params };
-        }
+  private addWebSocketRoute(
+    path: string,
+    args: WebSocketArgs,
+    middlewares: Handler[] = [],
+    errorHandlers: ErrorHandler[] = [],
+    group: string | null = null,
+    hooks: Hooks = createHooks()
+  ): Halin {
+    const handlers = args.slice(0, -1) as Handler[];
+    const socket = args[args.length - 1] as WebSocketHandlers;
+    return this.addRoute(WS_METHOD, path, [...handlers, upgradeHandler(socket, () => this.server)], middlewares, errorHandlers, group, hooks);
+  }
+
+  // Send a message to every socket subscribed to topic (ws.subscribe(topic)).
+  // Returns the bytes sent, or 0 when the server is not running.
+  publish(topic: string, data: Parameters<Server<unknown>['publish']>[1], compress?: boolean): number {
+    return this.server?.publish(topic, data, compress) ?? 0;
+  }
+
+  // Number of sockets subscribed to topic
+  subscriberCount(topic: string): number {
+    return this.server?.subscriberCount(topic) ?? 0;
+  }
+
+  // Serve a separately built app below path. The mounted app sees req.path
+  // without the prefix (which moves to req.baseUrl) and runs its own
+  // middleware, parsers and error handlers; errors it leaves unhandled go to
+  // this app's error handlers. The prefix may contain params, which the
+  // mounted app's routes see in req.params; wildcards are not allowed.
+  mount(path: string, app: Halin): Halin {
+    const prefix = path.replace(/\/+$/, '');
+    if (prefix.split('/').includes('*')) {
+      throw new Error(`Mount path cannot contain a wildcard: ${path}`);
+    }
+    // The prefix matches as many segments of req.path as it has
+    const depth = prefix.split('/').length;
+    const handler: Handler = async (req, res) => {
+      const { path, baseUrl, params, parseBody } = req;
+      const body = requestBodies.get(req)!;
+      const matched = path.split('/').slice(0, depth).join('/');
+      let parsed: Promise<any> | undefined;
+
+      req.baseUrl = baseUrl + matched;
+      req.path = path.slice(matched.length) || '/';
+      req.parseBody = () => parsed ??= app.parseBody(req, body);
+      app.server ??= this.server;
+      requestHooks.get(req)?.push(app.hooks);
+
+      try {
+        await app.process(req, res, body);
+      } finally {
+        Object.assign(req, { path, baseUrl, params, parseBody });
       }
+    };
+
+    this.mounts.push({ prefix, app });
+    app.parent = { prefix, app: this };
+
+    // Body parsing is left to the mounted app
+    const paths = prefix ? [prefix, `${prefix}/*`] : ['/*'];
+    for (const path of paths) {
+      this.addRoute(ANY_METHOD, path, [handler, { parseBody: false }]);
+      this.lastRoute!.mount = app;
     }
-    return null;
+    return this;
   }
 
+  // Route matching
+  private findRoute(method: HTTPMethod, path: string): RouteMatch | null {
+    const match = this.router.find(method, path);
+    return match ? { route: match.value, params: match.params } : null;
+  }
+
+  // Fetch-style entry point shared by listen(), handle() and any fetch host
+  // (`export default app` works with `bun run`). WebSocket routes need the
+  // server argument Bun passes to fetch.
+  fetch = (request: globalThis.Request, server?: Server<any>): Promise<globalThis.Response> => {
+    if (server) this.server = server;
+    return this.dispatch(request);
+  };
+
   // Server start
   listen(port: number, callback?: (server: any) => void): any {
-    let server: any;
     try {
-      server = Bun.serve({
+      const server = Bun.serve({
         port,
-        fetch: async (request: BunRequest) => {
-          const url = new URL(request.url);
-          const path = url.pathname;
-          const method = request.method;
-          let currentResponse: ResponseType | null = null;
-
-          try {
-            // Find matching route
-            const match = this.findRoute(method, path);
-            
-            if (!match) {
-              throw new HalinError(404, 'Not Found');
-            }
-            
-            // Parse request body based on Content-Type
-            const contentType = request.headers.get('Content-Type');
-            let body: any = null;
-            
-            if (request.body) {
-              try {
-                if (contentType?.includes('application/json')) {
-                  body = await request.json();
-                } else if (contentType?.includes('application/x-www-form-urlencoded')) {
-                  const formData = await request.formData();
-                  // Convert FormData to object manually
-                  const formDataObj: Record<string, string> = {};
-                  formData.forEach((value, key) => {
-                    formDataObj[key] = value.toString();
-                  });
-                  body = formDataObj;
-                } else {
-                  body = await request.text();
-                }
-              } catch (err) {
-                const error = err as Error;
-                throw new HalinError(400, `Invalid request body: ${error.message}`);
-              }
-            }
-
-            // Create request object
-            const req = {
-              method,
-              url: request.url,
-              path,
-              params: match.params,
-              query: Object.fromEntries(url.searchParams),
-              headers: request.headers,
-              body,
-              raw: request as BunRequest,
-              json: () => Promise.resolve(body)
-            } as Request;
-
-            // Create response object
-            const res = {
-              statusCode: 200,
-              headers: new Headers(),
-              body: null,
-              status(code: number) {
-                this.statusCode = code;
-                return this;
-              },
-              header(name: string, value: string) {
-                this.headers.set(name, value);
-                return this;
-              },
-              json(data: any) {
-                this.header('Content-Type', 'application/json');
-                this.body = JSON.stringify(data);
-                return this;
-              },
-              text(data: string) {
-                this.header('Content-Type', 'text/plain');
-                this.body = data;
-                return this;
-              },
-              send(data: any) {
-                if (typeof data === 'object') {
-                  return this.json(data);
-                }
-                return this.text(String(data));
-              },
-              stream(stream: ReadableStream) {
-                this.body = stream;
-                return this;
-              },
-              sse() {
-                const writer = new SSEWriter();
-                currentResponse = writer;
-                return writer;
-              }
-            } as Response;
-
-            // Execute middleware stack
-            let index = 0;
-            const middlewares = [...this.middlewares, ...match.route.handlers];
-            
-            const next: NextFunction = async () => {
-              try {
-                if (index < middlewares.length) {
-                  const middleware = middlewares[index++];
-                  await middleware(req, res, next);
-                }
-              } catch (err) {
-                const error = err as Error;
-                throw error instanceof HalinError ? error : new HalinError(500, `Middleware error: ${error.message}`);
-              }
-            };
-
-            try {
-              await next();
-            } catch (err) {
-              const error = err as Error;
-              if (this.errorHandlers.length > 0) {
-                let errorIndex = 0;
-                const errorNext = async () => {
-                  try {
-                    if (errorIndex < this.errorHandlers.length) {
-                      const errorHandler = this.errorHandlers[errorIndex++];
-                      await errorHandler(error, req, res, errorNext);
-                    } else {
-                      throw error;
-                    }
-                  } catch (e) {
-                    const innerError = e as Error;
-                    throw innerError instanceof HalinError ? innerError : new HalinError(500, `Error handler failed: ${innerError.message}`);
-                  }
-                };
-                await errorNext();
-              } else {
-                throw error;
-              }
-            }
-
-            // Handle SSE responses
-            if (currentResponse && 'send' in currentResponse && 'close' in currentResponse) {
-              const sseResponse = currentResponse as SSEWriter;
-              return new globalThis.Response(sseResponse.body, {
-                status: sseResponse.statusCode,
-                headers: sseResponse.headers
-              });
-            }
-
-            // Handle regular responses
-            return new globalThis.Response(res.body, {
-              status: res.statusCode,
-              headers: res.headers
-            });
-
-          } catch (err) {
-            const error = err instanceof Error ? err : new Error(String(err));
-            console.error('Request Error:', error);
-            
-            if (error instanceof HalinError) {
-              return new globalThis.Response(
-                JSON.stringify({ error: error.message }), 
-                { 
-                  status: error.statusCode,
-                  headers: { 'Content-Type': 'application/json' }
-                }
-              );
-            } else {
-              const errorMessage = error?.message || 'Internal Server Error';
-              return new globalThis.Response(
-                JSON.stringify({ 
-                  error: 'Internal Server Error',
-                  message: process.env.NODE_ENV === 'development' ? errorMessage : undefined 
-                }), 
-                { 
-                  status: 500,
-                  headers: { 'Content-Type': 'application/json' }
-                }
-              );
-            }
-          }
-        }
+        fetch: this.fetch,
+        websocket: this.websocket
       });
-      
+      this.server = server;
+
+      for (const onListen of this.listenCallbacks) {
+        Promise.resolve(onListen(server)).catch(err => this.log.error('onListen Error', { err }));
+      }
       if (callback) callback(server);
-      
+
       return server;
 
     } catch (err) {
       const error = err as Error;
-      console.error('Server Initialization Error:', error);
+      this.log.fatal('Server Initialization Error', { err: error });
       throw new Error(`Failed to start server: ${error.message}`);
     }
   }
 
+  // Run callback once listen() has started the server
+  onListen(callback: (server: Server<unknown>) => void | Promise<void>): Halin {
+    this.listenCallbacks.push(callback);
+    return this;
+  }
+
+  // Run callback at the end of close(), e.g. to close database pools
+  onClose(callback: () => void | Promise<void>): Halin {
+    this.closeCallbacks.push(callback);
+    return this;
+  }
+
+  // True while the app is serving: from listen() (or the first request from
+  // a server) until close() begins. Use it for readiness probes.
+  get ready(): boolean {
+    return this.server !== null && this.closing === null;
+  }
+
+  // Shut down gracefully: stop accepting connections, end event streams
+  // with a final 'shutdown' event, close WebSockets with 1001, and wait up
+  // to timeout for in-flight requests before cutting remaining connections.
+  // Requests arriving meanwhile get 503. Calling it again returns the same
+  // promise.
+  close(options: CloseOptions = {}): Promise<void> {
+    this.closing ??= this.shutdown(options);
+    return this.closing;
+  }
+
+  // Call close() on SIGTERM or SIGINT, then exit
+  closeOnSignals(signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'], options: CloseOptions = {}): Halin {
+    const handler = (signal: NodeJS.Signals) => {
+      this.log.info('Shutting down', { signal });
+      this.close(options).finally(() => process.exit(0));
+    };
+    this.signalHandler = handler;
+    this.signals = signals;
+    signals.forEach(signal => process.once(signal, handler));
+    return this;
+  }
+
+  private async shutdown(options: CloseOptions): Promise<void> {
+    const timeout = options.timeout ?? 10_000;
+    const reason = options.reason ?? 'Server shutting down';
+    const server = this.server;
+    const deadline = Date.now() + timeout;
+
+    // Stop listening; open connections finish their requests
+    const stopped = server?.stop();
+
+    for (const sse of this.streams) {
+      sse.send({ event: 'shutdown', data: reason });
+      sse.close();
+    }
+    for (const ws of this.sockets) {
+      ws.close(1001, reason);
+    }
+
+    if (!await this.idle(timeout)) {
+      this.log.warn('Shutdown timed out with requests in flight', { requests: this.inFlight });
+    }
+    // Handlers are done; give Bun the rest of the timeout to flush responses
+    let timer: Timer | undefined;
+    await Promise.race([stopped, new Promise(resolve => {
+      timer = setTimeout(resolve, Math.max(0, deadline - Date.now()));
+    })]);
+    clearTimeout(timer);
+    await server?.stop(true);
+
+    if (this.signalHandler) {
+      for (const signal of this.signals) {
+        process.off(signal, this.signalHandler);
+      }
+    }
+    for (const onClose of this.closeCallbacks) {
+      try {
+        await onClose();
+      } catch (err) {
+        this.log.error('onClose Error', { err });
+      }
+    }
+  }
+
+  // Resolves with true once no request is in flight, false after timeout
+  private idle(timeout: number): Promise<boolean> {
+    if (this.inFlight === 0) return Promise.resolve(true);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.onIdle = null;
+        resolve(false);
+      }, timeout);
+      this.onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+    });
+  }
+
   // Handle method for testing
-  async handle(request: Request): Promise<globalThis.Response> {
+  handle(request: globalThis.Request): Promise<globalThis.Response> {
+    return this.fetch(request);
+  }
+
+  // Turn a fetch Request into a Response; errors no error handler dealt
+  // with become the default JSON error response
+  private async dispatch(request: globalThis.Request): Promise<globalThis.Response> {
+    const started = performance.now();
     const url = new URL(request.url);
-    const path = url.pathname;
-    const method = request.method;
-    
+    const state: { sse: SSEWriter | null } = { sse: null };
+    const body = new BodyReader(request, this.config.bodyLimit);
+    const id = requestId(request.headers);
+    const log = this.log.child({ reqId: id, method: request.method, path: url.pathname });
+    const req = createRequest(request, url, body, req => this.parseBody(req, body), this.cookieSecrets, id, log);
+    const res = createResponse(req, writer => {
+      state.sse = writer;
+      this.streams.add(writer);
+      writer.onClose(() => this.streams.delete(writer));
+    }, this.cookieSecrets, (name, params, options) => this.routePath(name) === null ? null : this.url(name, params, options));
+    requestBodies.set(req, body);
+    req.ip = this.server?.requestIP(request)?.address ?? null;
+    res.header('X-Request-ID', id);
+
+    const hooks = [this.hooks];
+    requestHooks.set(req, hooks);
+
+    let response: globalThis.Response;
+    this.inFlight++;
     try {
-      // Create request and response objects first
-      const req: Request = {
-        method,
-        url: request.url,
-        path,
-        params: {},
-        query: Object.fromEntries(url.searchParams),
-        headers: request.headers,
-        body: null,
-        raw: request.raw || {} as BunRequest,
-        json: () => Promise.resolve(request.body)
-      };
-
-      let currentResponse: ResponseType | null = null;
-
-      const res: Response = {
-        statusCode: 200,
-        headers: new Headers(),
-        body: null,
-        status(code: number) {
-          this.statusCode = code;
-          return this;
-        },
-        header(name: string, value: string) {
-          this.headers.set(name, value);
-          return this;
-        },
-        json(data: any) {
-          this.header('Content-Type', 'application/json');
-          this.body = JSON.stringify(data);
-          return this;
-        },
-        text(data: string) {
-          this.header('Content-Type', 'text/plain');
-          this.body = data;
-          return this;
-        },
-        send(data: any) {
-          if (typeof data === 'object') {
-            return this.json(data);
-          }
-          return this.text(String(data));
-        },
-        stream(stream: ReadableStream) {
-          this.body = stream;
-          return this;
-        },
-        sse() {
-          const sseWriter = new SSEWriter();
-          currentResponse = sseWriter;
-          return sseWriter;
+      try {
+        if (this.closing) {
+          res.header('Connection', 'close');
+          throw new HalinError(503, 'Service Unavailable: server is shutting down');
         }
-      };
+        await this.process(req, res, body);
+      } catch (err) {
+        // An error response replaces the stream, which has to end so its
+        // heartbeat stops and onClose callbacks (e.g. SSEHub) clean up
+        state.sse?.close();
+        state.sse = null;
+        sendError(err, res, req.log);
+      }
 
+      const sent = res.body;
       try {
-        // Find matching route after creating req/res objects
-        const match = this.findRoute(method, path);
-        
-        if (!match) {
-          throw new HalinError(404, 'Not Found');
-        }
+        await runHooks(hooks.flatMap(scope => scope.onSend), req, res);
+        // A Content-Length set for the old body (e.g. by sendError) no
+        // longer fits a body rewritten by onSend
+        if (res.body !== sent) res.headers.delete('Content-Length');
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        await runErrorHooks(hooks.flatMap(scope => scope.onError), error, req, res);
+        state.sse?.close();
+        state.sse = null;
+        sendError(error, res, req.log);
+      }
+      response = this.toResponse(req, res, state.sse);
+    } finally {
+      if (--this.inFlight === 0) this.onIdle?.();
+    }
 
-        req.params = match.params;
-
-        // Parse body if present
-        if (request.body) {
-          const contentType = request.headers.get('Content-Type');
-          if (contentType?.includes('application/json')) {
-            try {
-              req.body = await request.json();
-            } catch (error) {
-              throw new HalinError(400, 'Invalid JSON body');
-            }
-          }
-        }
+    if (this.config.accessLog) {
+      const options = this.config.accessLog === true ? {} : this.config.accessLog;
+      // Streamed bodies are still being sent; duration is the time to respond
+      req.log.info('request completed', {
+        status: response.status,
+        bytes: state.sse ? null : req.method === 'HEAD' ? 0 : bodySize(res.body),
+        duration: Math.round((performance.now() - started) * 100) / 100,
+        ip: req.ip,
+        ...(options.headers && { headers: req.headers })
+      });
+    }
 
-        // Combine all handlers including middleware and route handlers
-        const handlers = [...this.middlewares];
-        handlers.push(...match.route.handlers);
-
-        // Execute handler chain
-        let index = 0;
-        const next = async () => {
-          try {
-            if (index < handlers.length) {
-              const handler = handlers[index++];
-              await handler(req, res, next);
-            }
-          } catch (e) {
-            throw e;
-          }
-        };
-
-        await next();
-
-        if (currentResponse && 'send' in currentResponse && 'close' in currentResponse) {
-          const sseResponse = currentResponse as SSEWriter;
-          return new globalThis.Response(sseResponse.body, {
-            status: sseResponse.statusCode,
-            headers: sseResponse.headers
-          });
+    const onResponse = hooks.flatMap(scope => scope.onResponse);
+    if (onResponse.length > 0) {
+      // After Bun has taken the response; streamed bodies may still be sending
+      setImmediate(async () => {
+        try {
+          await runHooks(onResponse, req, res);
+        } catch (err) {
+          req.log.error('onResponse Error', { err });
         }
+      });
+    }
+    return response;
+  }
 
-        return new globalThis.Response(res.body, {
-          status: res.statusCode,
-          headers: res.headers
-        });
+  private toResponse(req: Request, res: Response, sse: SSEWriter | null): globalThis.Response {
+    if (sse) {
+      // Nobody reads the stream of a HEAD response, so end it (and its
+      // heartbeat) now and let onClose callbacks clean up
+      if (req.method === 'HEAD') sse.close();
+      return new globalThis.Response(req.method === 'HEAD' ? null : sse.body, {
+        status: sse.statusCode,
+        headers: sse.headers
+      });
+    }
 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error(String(err));
-        // Handle errors through error middleware chain
-        if (this.errorHandlers.length > 0) {
-          let errorIndex = 0;
-          const errorNext = async () => {
-            if (errorIndex < this.errorHandlers.length) {
-              const handler = this.errorHandlers[errorIndex++];
-              await handler(error, req, res, errorNext);
-            } else {
-              throw error;
-            }
-          };
-          await errorNext();
-
-          return new globalThis.Response(res.body, {
-            status: res.statusCode,
-            headers: res.headers
-          });
-        }
-        throw error;
+    // HEAD responses keep the headers of the GET response but drop the body
+    if (req.method === 'HEAD') {
+      if (typeof res.body === 'string' && !res.headers.has('Content-Length')) {
+        res.header('Content-Length', String(new TextEncoder().encode(res.body).length));
+      }
+      return new globalThis.Response(null, {
+        status: res.statusCode,
+        headers: res.headers
+      });
+    }
+
+    return new globalThis.Response(res.body, {
+      status: res.statusCode,
+      headers: res.headers
+    });
+  }
+
+  // Request pipeline: onRequest hooks, route, run middleware, parse the
+  // body, run group middleware, preHandler hooks and route handlers, then
+  // onError hooks and error handlers if anything threw. The body is only read
+  // once global middleware has passed the request on. Mounted apps run their
+  // own pipeline on the same req and res.
+  private async process(req: Request, res: Response, body: BodyReader): Promise<void> {
+    let errorHandlers = this.errorHandlers;
+    let hooks = this.hooks;
+    try {
+      await runHooks(this.hooks.onRequest, req, res);
+
+      const route = this.resolveRoute(req, res);
+      const { handlers, middlewares, options } = route;
+      errorHandlers = [...route.errorHandlers, ...this.errorHandlers];
+      hooks = mergeHooks(this.hooks, route.hooks);
+      requestHooks.get(req)?.push(route.hooks);
+      body.limit = options.bodyLimit ?? this.config.bodyLimit ?? body.limit;
+
+      await runHooks(route.hooks.onRequest, req, res);
+
+      const chain = [...this.middlewares];
+      if (options.parseBody ?? this.config.parseBody ?? true) {
+        chain.push(async (req, res, next) => {
+          req.body = await req.parseBody();
+          await next?.();
+        });
       }
+      chain.push(...middlewares);
+      if (hooks.preHandler.length > 0) {
+        chain.push(async (req, res, next) => {
+          await runHooks(hooks.preHandler, req, res);
+          await next?.();
+        });
+      }
+      chain.push(...handlers.slice(middlewares.length));
+
+      await runHandlers(chain, req, res);
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
-      // Final error handling
-      if (error instanceof HalinError) {
-        return new globalThis.Response(
-          JSON.stringify({ error: error.message }), 
-          { 
-            status: error.statusCode,
-            headers: new Headers({ 'Content-Type': 'application/json' })
-          }
-        );
-      } else {
-        return new globalThis.Response(
-          JSON.stringify({ error: error.message || 'Internal Server Error' }), 
-          { 
-            status: 500,
-            headers: new Headers({ 'Content-Type': 'application/json' })
-          }
-        );
+      await runErrorHooks(hooks.onError, error, req, res);
+      await this.runErrorHandlers(errorHandlers, error, req, res);
+    }
+  }
+
+  // Find the route for a request. HEAD falls back to GET routes and OPTIONS
+  // is answered automatically; a path that exists under other methods gets
+  // 405 with an Allow header instead of 404.
+  private resolveRoute(req: Request, res: Response): Pick<RouteDefinition, 'handlers' | 'middlewares' | 'errorHandlers' | 'options' | 'hooks'> {
+    const upgrade = req.method === 'GET' && isWebSocketUpgrade(req.headers);
+    const match = (upgrade ? this.findRoute(WS_METHOD, req.path) : null)
+      ?? this.findRoute(req.method, req.path)
+      ?? (req.method === 'HEAD' ? this.findRoute('GET', req.path) : null);
+
+    if (match) {
+      // Params captured by the prefix a mounted app is mounted at stay visible
+      req.params = { ...req.params, ...match.params };
+      return match.route;
+    }
+
+    const allowed = this.allowedMethods(req.path);
+    if (allowed.length === 0 && this.findRoute(WS_METHOD, req.path)) {
+      res.header('Upgrade', 'websocket');
+      return rejectRoute(426, 'Upgrade Required');
+    }
+    if (allowed.length === 0) {
+      return rejectRoute(404, 'Not Found');
+    }
+
+    res.header('Allow', allowed.join(', '));
+
+    if (req.method === 'OPTIONS') {
+      // Run the group middleware (e.g. cors()) of the route a CORS preflight
+      // asks about, or of the GET route, before answering
+      const requested = req.headers.get('Access-Control-Request-Method')?.toUpperCase();
+      const target = this.findRoute(requested ?? 'GET', req.path)
+        ?? this.findRoute(allowed[0], req.path);
+      if (target) {
+        req.params = { ...req.params, ...target.params };
       }
+
+      const middlewares = target?.route.middlewares ?? [];
+      return {
+        handlers: [...middlewares, (req, res) => {
+          res.status(204);
+        }],
+        middlewares,
+        errorHandlers: target?.route.errorHandlers ?? [],
+        options: {},
+        hooks: target?.route.hooks ?? createHooks()
+      };
     }
+
+    return rejectRoute(405, 'Method Not Allowed');
+  }
+
+  // Run the parser registered for the request's Content-Type
+  private async parseBody(req: Request, body: BodyReader): Promise<any> {
+    if (!body.hasBody()) return null;
+
+    const parser = findParser(this.parsers, body.contentType);
+    if (!parser) return null;
+
+    try {
+      return await parser(req);
+    } catch (err) {
+      if (err instanceof HalinError) throw err;
+      throw new HalinError(400, `Invalid request body: ${(err as Error).message}`);
+    }
+  }
+
+  // Built-in multipart/form-data parser: fields become req.body, files req.files
+  private async parseMultipart(req: Request): Promise<Record<string, string>> {
+    const boundary = getBoundary(req.headers.get('Content-Type') ?? '');
+    if (!boundary) {
+      throw new HalinError(400, 'Invalid request body: missing multipart boundary');
+    }
+
+    const stream = req.stream();
+    if (!stream) return {};
+
+    const { fields, files } = await parseMultipart(stream, boundary, this.config.multipart);
+    req.files = files;
+    return fields;
+  }
+
+  // Methods a path answers to, including the implicit HEAD and OPTIONS
+  private allowedMethods(path: string): string[] {
+    const methods = this.router.allowedMethods(path).filter(method => method !== WS_METHOD);
+    if (methods.length === 0) return methods;
+
+    if (methods.includes('GET') && !methods.includes('HEAD')) methods.push('HEAD');
+    if (!methods.includes('OPTIONS')) methods.push('OPTIONS');
+    return methods;
+  }
+
+  // Run error handlers in order; rethrow if none of them handles the error
+  private async runErrorHandlers(handlers: ErrorHandler[], error: Error, req: Request, res: Response): Promise<void> {
+    if (handlers.length === 0) {
+      throw error;
+    }
+
+    let index = 0;
+    const next: NextFunction = async () => {
+      if (index < handlers.length) {
+        const handler = handlers[index++];
+        await handler(error, req, res, next);
+      } else {
+        throw error;
+      }
+    };
+    await next();
   }
 
   // Group method with fluent API
-  group(pathOrMiddleware?: string | Handler | Handler[]): GroupBuilder {
-    const groupRouter = new GroupBuilder(this);
+  group<Prefix extends string = ''>(pathOrMiddleware?: Prefix | Handler | Handler[]): GroupBuilder<Prefix> {
+    const groupRouter = new GroupBuilder<Prefix>(this, this.groupRoutes);
 
     if (typeof pathOrMiddleware === 'string') {
       groupRouter.prefix = this.prefix + pathOrMiddleware;
@@ -598,94 +1373,181 @@ export class Halin {
     return groupRouter;
   }
 
+  // Lets groups register routes with their middleware, error handlers and hooks
+  private groupRoutes: GroupRoutes = {
+    add: (method, path, args, scope) => {
+      this.addRoute(method, path, args, scope.middlewares, scope.errorHandlers, scope.prefix, scope.hooks);
+    },
+    ws: (path, args, scope) => {
+      this.addWebSocketRoute(path, args, scope.middlewares, scope.errorHandlers, scope.prefix, scope.hooks);
+    }
+  };
+
   // Method to add routes from group
   private addGroupRoute(method: HTTPMethod, path: string, handlers: Handler[]): void {
-    const fullPath = this.prefix + path;
-    this.routes.push({
-      method,
-      path: fullPath,
-      pattern: this.pathToPattern(fullPath),
-      handlers: [...this.currentGroupMiddlewares, ...handlers]
-    });
+    this.addRoute(method, this.prefix + path, handlers, this.currentGroupMiddlewares);
   }
 }
 
 // New GroupBuilder class for fluent group API
-class GroupBuilder {
+// Prefix tracks the group path at the type level so handlers see its params
+class GroupBuilder<Prefix extends string = ''> {
   private _middlewares: Handler[] = [];
+  private _errorHandlers: ErrorHandler[] = [];
+  private _hooks = createHooks();
   public prefix: string = '';
+  // Error handlers of enclosing groups, run after this group's own
+  public parentErrorHandlers: ErrorHandler[] = [];
+  // Hooks of enclosing groups, run before this group's own
+  public parentHooks = createHooks();
+
+  constructor(private app: Halin, private register: GroupRoutes) {}
+
+  // Add middleware to the group; error handlers (four arguments) catch
+  // errors from the group's routes before the app's error handlers do.
+  // Separate overloads keep inline middleware typed with the prefix params.
+  use(...handlers: Handler<ExtractParams<Prefix>>[]): GroupBuilder<Prefix>;
+  use(...handlers: ErrorHandler[]): GroupBuilder<Prefix>;
+  use(...handlers: (Handler<ExtractParams<Prefix>> | ErrorHandler)[]): GroupBuilder<Prefix> {
+    handlers.forEach(handler => {
+      if (handler.length === 4) {
+        this._errorHandlers.push(handler as ErrorHandler);
+      } else {
+        this._middlewares.push(handler as Handler);
+      }
+    });
+    return this;
+  }
 
-  constructor(private app: Halin) {}
+  // Lifecycle hooks for the group's routes. They run after the app's hooks
+  // of the same kind; onRequest hooks run once the route has been matched.
+  onRequest(hook: Hook<ExtractParams<Prefix>>): GroupBuilder<Prefix> {
+    this._hooks.onRequest.push(hook as Hook);
+    return this;
+  }
 
-  // Add middleware to the group
-  use(...handlers: Handler[]): GroupBuilder {
-    this._middlewares.push(...handlers);
+  preHandler(hook: Hook<ExtractParams<Prefix>>): GroupBuilder<Prefix> {
+    this._hooks.preHandler.push(hook as Hook);
+    return this;
+  }
+
+  onSend(hook: Hook<ExtractParams<Prefix>>): GroupBuilder<Prefix> {
+    this._hooks.onSend.push(hook as Hook);
+    return this;
+  }
+
+  onResponse(hook: Hook<ExtractParams<Prefix>>): GroupBuilder<Prefix> {
+    this._hooks.onResponse.push(hook as Hook);
+    return this;
+  }
+
+  onError(hook: ErrorHook): GroupBuilder<Prefix> {
+    this._hooks.onError.push(hook);
     return this;
   }
 
   // Define routes within the group
-  routes(callback: (group: GroupRouter) => void): Halin {
-    const router = new GroupRouter(this.app, this.prefix, this._middlewares);
+  routes(callback: (group: GroupRouter<Prefix>) => void): Halin {
+    const router = new GroupRouter<Prefix>(
+      this.app,
+      this.register,
+      this.prefix,
+      this._middlewares,
+      [...this._errorHandlers, ...this.parentErrorHandlers],
+      mergeHooks(this.parentHooks, this._hooks)
+    );
     callback(router);
     return this.app;
   }
 }
 
 // Router class for group routes
-class GroupRouter {
+class GroupRouter<Prefix extends string = ''> {
   constructor(
     private app: Halin,
+    private register: GroupRoutes,
     private prefix: string,
-    private groupMiddlewares: Handler[]
+    private groupMiddlewares: Handler[],
+    private groupErrorHandlers: ErrorHandler[] = [],
+    private groupHooks: Hooks = createHooks()
   ) {}
 
-  private addRoute(method: HTTPMethod, path: string, ...handlers: Handler[]): void {
-    const fullPath = this.prefix + path;
-    
-    // Simply concatenate the middleware arrays without wrapping
-    this.app['routes'].push({
-      method,
-      path: fullPath,
-      pattern: this.app['pathToPattern'](fullPath),
-      handlers: [...this.groupMiddlewares, ...handlers]
-    });
+  private get scope(): GroupScope {
+    return {
+      prefix: this.prefix,
+      middlewares: this.groupMiddlewares,
+      errorHandlers: this.groupErrorHandlers,
+      hooks: this.groupHooks
+    };
+  }
+
+  private addRoute(method: HTTPMethod, path: string, ...args: RouteArgs): void {
+    this.register.add(method, this.prefix + path, args, this.scope);
+  }
+
+  get<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('GET', path, ...(args as RouteArgs));
+    return this;
+  }
+
+  post<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('POST', path, ...(args as RouteArgs));
+    return this;
+  }
+
+  put<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('PUT', path, ...(args as RouteArgs));
+    return this;
+  }
+
+  delete<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('DELETE', path, ...(args as RouteArgs));
+    return this;
+  }
+
+  patch<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('PATCH', path, ...(args as RouteArgs));
+    return this;
   }
 
-  get(path: string, ...handlers: Handler[]): GroupRouter {
-    this.addRoute('GET', path, ...handlers);
+  options<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('OPTIONS', path, ...(args as RouteArgs));
     return this;
   }
 
-  post(path: string, ...handlers: Handler[]): GroupRouter {
-    this.addRoute('POST', path, ...handlers);
+  head<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute('HEAD', path, ...(args as RouteArgs));
     return this;
   }
 
-  put(path: string, ...handlers: Handler[]): GroupRouter {
-    this.addRoute('PUT', path, ...handlers);
+  all<Path extends string>(path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute(ANY_METHOD, path, ...(args as RouteArgs));
     return this;
   }
 
-  delete(path: string, ...handlers: Handler[]): GroupRouter {
-    this.addRoute('DELETE', path, ...handlers);
+  on<Path extends string>(method: string, path: Path, ...args: RouteArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.addRoute(method.toUpperCase(), path, ...(args as RouteArgs));
     return this;
   }
 
-  patch(path: string, ...handlers: Handler[]): GroupRouter {
-    this.addRoute('PATCH', path, ...handlers);
+  ws<Path extends string>(path: Path, ...args: WebSocketArgs<ExtractParams<`${Prefix}${Path}`>>): GroupRouter<Prefix> {
+    this.register.ws(this.prefix + path, args as WebSocketArgs, this.scope);
     return this;
   }
 
-  on(method: string, path: string, ...handlers: Handler[]): GroupRouter {
-    this.addRoute(method.toUpperCase(), path, ...handlers);
+  // Name the route registered last
+  name(name: string): GroupRouter<Prefix> {
+    this.app.name(name);
     return this;
   }
 
-  group(path: string): GroupBuilder {
-    const nestedGroup = new GroupBuilder(this.app);
+  group<Path extends string>(path: Path): GroupBuilder<`${Prefix}${Path}`> {
+    const nestedGroup = new GroupBuilder<`${Prefix}${Path}`>(this.app, this.register);
     nestedGroup.prefix = this.prefix + path;
-    // Pass through the existing middleware
+    // Pass through the existing middleware and error handlers
     nestedGroup.use(...this.groupMiddlewares);
+    nestedGroup.parentErrorHandlers = this.groupErrorHandlers;
+    nestedGroup.parentHooks = this.groupHooks;
     return nestedGroup;
   }
 }
\ No newline at end of file
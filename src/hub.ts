@@ -0,0 +1,137 @@
+// hub.ts - Channel hub for fanning Server-Sent Events out to clients
+// Handlers subscribe their res.sse() stream to named channels and any code
+// can publish to a channel. Events travel through a backend, so several
+// processes can share channels by plugging in an external broker.
+
+import { isMessage, type SSEMessage, type SSEResponse } from './sse';
+
+// Delivers published events to every hub connected to it, including the
+// publishing one. Implement it over Redis, NATS, Postgres LISTEN, ...
+export interface SSEHubBackend {
+  publish(channel: string, message: SSEMessage): void | Promise<void>;
+  // Called once by each hub with the function that delivers events locally
+  subscribe(listener: (channel: string, message: SSEMessage) => void): void | Promise<void>;
+}
+
+export interface SSEHubOptions {
+  // Number of recent events kept for clients reconnecting with
+  // Last-Event-ID (default 100, 0 disables replay)
+  replay?: number;
+  // Where events are published (default in-process)
+  backend?: SSEHubBackend;
+}
+
+interface BufferedEvent {
+  channel: string;
+  message: SSEMessage;
+}
+
+// Backend for a single process: events go straight to the local listeners
+export class MemoryBackend implements SSEHubBackend {
+  private listeners: ((channel: string, message: SSEMessage) => void)[] = [];
+
+  publish(channel: string, message: SSEMessage): void {
+    this.listeners.forEach(listener => listener(channel, message));
+  }
+
+  subscribe(listener: (channel: string, message: SSEMessage) => void): void {
+    this.listeners.push(listener);
+  }
+}
+
+export class SSEHub {
+  private channels = new Map<string, Set<SSEResponse>>();
+  private history: BufferedEvent[] = [];
+  private replay: number;
+  private backend: SSEHubBackend;
+  private ready: Promise<void>;
+
+  constructor(options: SSEHubOptions = {}) {
+    this.replay = options.replay ?? 100;
+    this.backend = options.backend ?? new MemoryBackend();
+    this.ready = Promise.resolve(this.backend.subscribe((channel, message) => this.deliver(channel, message)));
+  }
+
+  // Add an event stream to channels. Events the client missed since its
+  // Last-Event-ID are replayed first when they are still buffered. The
+  // stream leaves its channels when it closes; the returned function removes
+  // it earlier.
+  subscribe(sse: SSEResponse, channels: string | string[]): () => void {
+    const names = [channels].flat();
+    if (sse.closed) return () => {};
+
+    if (sse.lastEventId !== null) {
+      const index = this.history.findLastIndex(event => String(event.message.id) === sse.lastEventId);
+      if (index >= 0) {
+        this.history.slice(index + 1)
+          .filter(event => names.includes(event.channel))
+          .forEach(event => sse.send(event.message));
+      }
+    }
+
+    for (const name of names) {
+      let subscribers = this.channels.get(name);
+      if (!subscribers) {
+        subscribers = new Set();
+        this.channels.set(name, subscribers);
+      }
+      subscribers.add(sse);
+    }
+
+    const unsubscribe = () => this.unsubscribe(sse, names);
+    sse.onClose(unsubscribe);
+    return unsubscribe;
+  }
+
+  // Remove an event stream from channels, or from every channel
+  unsubscribe(sse: SSEResponse, channels?: string | string[]): void {
+    const names = channels === undefined ? [...this.channels.keys()] : [channels].flat();
+    for (const name of names) {
+      const subscribers = this.channels.get(name);
+      subscribers?.delete(sse);
+      if (subscribers?.size === 0) {
+        this.channels.delete(name);
+      }
+    }
+  }
+
+  // Send data or an SSEMessage to every subscriber of channel. Events get a
+  // generated ID unless they have one, so clients can resume after them.
+  async publish(channel: string, data: any): Promise<string> {
+    const message: SSEMessage = isMessage(data) ? { ...data } : { data };
+    message.id ??= crypto.randomUUID();
+
+    await this.ready;
+    await this.backend.publish(channel, message);
+    return String(message.id);
+  }
+
+  // Number of open streams subscribed to channel
+  subscribers(channel: string): number {
+    return this.channels.get(channel)?.size ?? 0;
+  }
+
+  // Close every subscribed stream, e.g. on shutdown
+  close(): void {
+    const streams = new Set([...this.channels.values()].flatMap(subscribers => [...subscribers]));
+    this.channels.clear();
+    streams.forEach(sse => sse.close());
+  }
+
+  private deliver(channel: string, message: SSEMessage): void {
+    if (this.replay > 0) {
+      this.history.push({ channel, message });
+      if (this.history.length > this.replay) {
+        this.history.splice(0, this.history.length - this.replay);
+      }
+    }
+
+    for (const sse of this.channels.get(channel) ?? []) {
+      if (sse.closed) {
+        this.unsubscribe(sse);
+      } else {
+        sse.send(message);
+      }
+    }
+  }
+}
@@ -0,0 +1,152 @@
+// logger.ts - Structured logging for Halin
+// Every record is a level, a message and fields. Child loggers add fixed
+// fields (req.log carries the request ID, method and path). Records are
+// written as JSON lines or as readable text, with sensitive fields redacted.
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal' | 'silent';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  // Records below this level are dropped (default 'info')
+  level?: LogLevel;
+  // 'json' lines, or 'pretty' text for terminals (default 'pretty' when
+  // stdout is a TTY, 'json' otherwise)
+  format?: 'json' | 'pretty';
+  // Field names whose values are replaced wherever they occur, compared
+  // case-insensitively (default authorization, cookie and similar headers)
+  redact?: string[];
+  // Receives each formatted line (default stdout, stderr from warn up)
+  write?: (line: string, level: LogLevel) => void;
+}
+
+export interface AccessLogOptions {
+  // Include the request headers, redacted (default false)
+  headers?: boolean;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+  silent: Infinity
+};
+
+const DEFAULT_REDACT = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+const REDACTED = '[REDACTED]';
+
+function defaultWrite(line: string, level: LogLevel): void {
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+// Plain JSON-friendly values: errors keep their stack, headers become objects
+function serialize(value: unknown, redact: Set<string>, seen: WeakSet<object>): unknown {
+  if (value instanceof Error) {
+    const error: LogFields = { type: value.name, message: value.message, stack: value.stack };
+    for (const [key, field] of Object.entries(value)) {
+      error[key] = redact.has(key.toLowerCase()) ? REDACTED : serialize(field, redact, seen);
+    }
+    return error;
+  }
+  if (value instanceof Headers) {
+    const headers: LogFields = {};
+    value.forEach((field, key) => {
+      headers[key] = redact.has(key) ? REDACTED : field;
+    });
+    return headers;
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+  if (Array.isArray(value)) return value.map(item => serialize(item, redact, seen));
+
+  const output: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    output[key] = redact.has(key.toLowerCase()) ? REDACTED : serialize(field, redact, seen);
+  }
+  return output;
+}
+
+function prettyValue(value: unknown): string {
+  if (typeof value === 'string') return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  return JSON.stringify(value);
+}
+
+function pretty(time: Date, level: LogLevel, message: string, fields: LogFields): string {
+  const stacks: string[] = [];
+  const pairs = Object.entries(fields).map(([key, value]) => {
+    const stack = (value as LogFields | null)?.stack;
+    if (typeof stack === 'string') {
+      stacks.push(stack);
+      return `${key}=${prettyValue((value as LogFields).message)}`;
+    }
+    return `${key}=${prettyValue(value)}`;
+  });
+
+  const head = [time.toISOString(), level.toUpperCase().padEnd(5), message, ...pairs].join(' ');
+  return [head, ...stacks.map(stack => stack.replace(/^/gm, '    '))].join('\n');
+}
+
+export class Logger {
+  private level: number;
+  private format: 'json' | 'pretty';
+  private redact: Set<string>;
+  private write: (line: string, level: LogLevel) => void;
+
+  constructor(private options: LoggerOptions = {}, private bindings: LogFields = {}) {
+    this.level = LEVELS[options.level ?? 'info'];
+    this.format = options.format ?? (process.stdout.isTTY ? 'pretty' : 'json');
+    this.redact = new Set((options.redact ?? DEFAULT_REDACT).map(field => field.toLowerCase()));
+    this.write = options.write ?? defaultWrite;
+  }
+
+  // Logger that adds bindings to every record
+  child(bindings: LogFields): Logger {
+    return new Logger(this.options, { ...this.bindings, ...bindings });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return level !== 'silent' && LEVELS[level] >= this.level;
+  }
+
+  trace(message: string, fields?: LogFields): void {
+    this.log('trace', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  fatal(message: string, fields?: LogFields): void {
+    this.log('fatal', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const time = new Date();
+    const data = serialize({ ...this.bindings, ...fields }, this.redact, new WeakSet()) as LogFields;
+    const line = this.format === 'json'
+      ? JSON.stringify({ level, time: time.toISOString(), msg: message, ...data })
+      : pretty(time, level, message, data);
+    this.write(line, level);
+  }
+}
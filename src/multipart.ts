@@ -0,0 +1,291 @@
+// multipart.ts - Streaming multipart/form-data parser for Halin
+// Reads the request body incrementally so limits are enforced as bytes arrive
+// and large files can be streamed to disk instead of being buffered.
+
+import { unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { HalinError } from './error';
+
+export interface MultipartOptions {
+  // Maximum size of a single file in bytes
+  maxFileSize?: number;
+  // Maximum size of all fields and files together in bytes
+  maxTotalSize?: number;
+  // Accepted file MIME types; entries may end in '/*' (e.g. 'image/*')
+  allowedTypes?: string[];
+  // Directory that large uploads are streamed to with Bun.write
+  uploadDir?: string;
+  // Files larger than this many bytes go to uploadDir (default 1 MiB)
+  diskThreshold?: number;
+}
+
+export interface UploadedFile {
+  // Form field name
+  field: string;
+  // Filename sent by the client
+  name: string;
+  type: string;
+  size: number;
+  // File contents; a Bun.file() handle when the upload was written to disk
+  blob: Blob;
+  // Location on disk when the upload was written to uploadDir
+  path?: string;
+  stream(): ReadableStream<Uint8Array>;
+}
+
+export interface MultipartResult {
+  fields: Record<string, string>;
+  files: Record<string, UploadedFile[]>;
+}
+
+interface PartWriter {
+  write(chunk: Uint8Array): Promise<void> | void;
+  finish(): Promise<void>;
+  abort(error: Error): Promise<void>;
+}
+
+type ParserState = 'preamble' | 'boundary' | 'headers' | 'body' | 'done';
+
+const MAX_HEADER_SIZE = 16 * 1024;
+const DEFAULT_DISK_THRESHOLD = 1024 * 1024;
+
+export function getBoundary(contentType: string): string | null {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function isAllowedType(type: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some(allowed => allowed.endsWith('/*')
+    ? type.startsWith(allowed.slice(0, -1))
+    : type === allowed);
+}
+
+function parsePartHeaders(raw: string): { name: string; filename?: string; type: string } {
+  const headers: Record<string, string> = {};
+  for (const line of raw.split('\r\n')) {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+    }
+  }
+
+  const disposition = headers['content-disposition'] ?? '';
+  const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+  if (name === undefined) {
+    throw new HalinError(400, 'Invalid request body: multipart part without a name');
+  }
+
+  return {
+    name,
+    filename: disposition.match(/\bfilename="([^"]*)"/i)?.[1],
+    type: headers['content-type'] ?? 'application/octet-stream'
+  };
+}
+
+export async function parseMultipart(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  options: MultipartOptions = {}
+): Promise<MultipartResult> {
+  const result: MultipartResult = { fields: {}, files: {} };
+  const writtenPaths: string[] = [];
+  const opening = Buffer.from(`--${boundary}`);
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const diskThreshold = options.diskThreshold ?? DEFAULT_DISK_THRESHOLD;
+
+  let buffer = Buffer.alloc(0);
+  // Updated inside processBuffer, so keep TypeScript from narrowing it here
+  let state = 'preamble' as ParserState;
+  let part: PartWriter | null = null;
+  let totalSize = 0;
+
+  const countBytes = (size: number) => {
+    totalSize += size;
+    if (options.maxTotalSize !== undefined && totalSize > options.maxTotalSize) {
+      throw new HalinError(413, `Payload Too Large: multipart body exceeds ${options.maxTotalSize} bytes`);
+    }
+  };
+
+  const fieldWriter = (name: string): PartWriter => {
+    const chunks: Uint8Array[] = [];
+    return {
+      write(chunk) {
+        countBytes(chunk.length);
+        chunks.push(new Uint8Array(chunk));
+      },
+      async finish() {
+        result.fields[name] = Buffer.concat(chunks).toString('utf8');
+      },
+      async abort() {}
+    };
+  };
+
+  const fileWriter = (field: string, filename: string, type: string): PartWriter => {
+    const checkType = () => {
+      if (options.allowedTypes && !isAllowedType(type, options.allowedTypes)) {
+        throw new HalinError(415, `Unsupported Media Type: ${type} is not allowed for ${field}`);
+      }
+    };
+    // Browsers send an unfilled file input as an empty part with no
+    // filename; it is only checked and kept if bytes arrive after all
+    const unfilled = filename === '';
+    if (!unfilled) checkType();
+
+    let chunks: Uint8Array[] = [];
+    let size = 0;
+    let path: string | undefined;
+    let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+    let written: Promise<number> | undefined;
+
+    // Switch from buffering to streaming the file to disk
+    const spill = (directory: string) => {
+      path = join(directory, crypto.randomUUID());
+      writtenPaths.push(path);
+      const stream = new ReadableStream<Uint8Array>({
+        start(ctrl) {
+          controller = ctrl;
+        }
+      });
+      written = Bun.write(path, new globalThis.Response(stream));
+      chunks.forEach(buffered => controller!.enqueue(buffered));
+      chunks = [];
+    };
+
+    return {
+      write(chunk) {
+        if (unfilled && size === 0 && chunk.length > 0) checkType();
+        size += chunk.length;
+        countBytes(chunk.length);
+        if (options.maxFileSize !== undefined && size > options.maxFileSize) {
+          throw new HalinError(413, `Payload Too Large: ${field} exceeds ${options.maxFileSize} bytes`);
+        }
+
+        const copy = new Uint8Array(chunk);
+        if (controller) {
+          controller.enqueue(copy);
+          return;
+        }
+        chunks.push(copy);
+        if (options.uploadDir && size > diskThreshold) {
+          spill(options.uploadDir);
+        }
+      },
+      async finish() {
+        if (unfilled && size === 0) return;
+
+        let blob: Blob;
+        if (controller && path) {
+          controller.close();
+          await written;
+          blob = Bun.file(path, { type });
+        } else {
+          blob = new Blob(chunks, { type });
+        }
+
+        const file: UploadedFile = {
+          field,
+          name: filename,
+          type,
+          size,
+          blob,
+          path,
+          stream: () => blob.stream()
+        };
+        (result.files[field] ??= []).push(file);
+      },
+      async abort(error) {
+        if (controller) {
+          controller.error(error);
+          await written?.catch(() => {});
+        }
+      }
+    };
+  };
+
+  // Consume as much of the buffer as possible; returns when more input is needed
+  const processBuffer = async () => {
+    while (true) {
+      if (state === 'preamble') {
+        const index = buffer.indexOf(opening);
+        if (index < 0) {
+          buffer = buffer.subarray(Math.max(0, buffer.length - opening.length + 1));
+          return;
+        }
+        buffer = buffer.subarray(index + opening.length);
+        state = 'boundary';
+      }
+
+      if (state === 'boundary') {
+        if (buffer.length < 2) return;
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          state = 'done';
+          return;
+        }
+        if (buffer[0] !== 0x0d || buffer[1] !== 0x0a) {
+          throw new HalinError(400, 'Invalid request body: malformed multipart boundary');
+        }
+        buffer = buffer.subarray(2);
+        state = 'headers';
+      }
+
+      if (state === 'headers') {
+        const index = buffer.indexOf('\r\n\r\n');
+        if (index < 0) {
+          if (buffer.length > MAX_HEADER_SIZE) {
+            throw new HalinError(400, 'Invalid request body: multipart headers too large');
+          }
+          return;
+        }
+        const headers = parsePartHeaders(buffer.subarray(0, index).toString('utf8'));
+        part = headers.filename !== undefined
+          ? fileWriter(headers.name, headers.filename, headers.type)
+          : fieldWriter(headers.name);
+        buffer = buffer.subarray(index + 4);
+        state = 'body';
+      }
+
+      if (state === 'body') {
+        const index = buffer.indexOf(delimiter);
+        if (index < 0) {
+          // Keep enough bytes to recognise a delimiter split across chunks
+          const safe = buffer.length - delimiter.length + 1;
+          if (safe > 0) {
+            await part!.write(buffer.subarray(0, safe));
+            buffer = buffer.subarray(safe);
+          }
+          return;
+        }
+        await part!.write(buffer.subarray(0, index));
+        await part!.finish();
+        part = null;
+        buffer = buffer.subarray(index + delimiter.length);
+        state = 'boundary';
+      }
+
+      if (state === 'done') return;
+    }
+  };
+
+  const reader = body.getReader();
+  try {
+    while (state !== 'done') {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, value]) : Buffer.from(value);
+      await processBuffer();
+    }
+
+    if (state !== 'done') {
+      throw new HalinError(400, 'Invalid request body: unexpected end of multipart data');
+    }
+    return result;
+  } catch (err) {
+    const error = err as Error;
+    await (part as PartWriter | null)?.abort(error);
+    await reader.cancel().catch(() => {});
+    await Promise.all(writtenPaths.map(path => unlink(path).catch(() => {})));
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
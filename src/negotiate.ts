@@ -0,0 +1,171 @@
+// negotiate.ts - Content negotiation for Halin
+// Parses Accept, Accept-Language, Accept-Encoding and Accept-Charset with
+// their q-values. Each offered value takes the q-value of the most specific
+// range matching it; ties go to the range listed first, then to the offer
+// listed first.
+
+interface Range {
+  value: string;
+  params: Record<string, string>;
+  q: number;
+  index: number;
+}
+
+interface Priority {
+  q: number;
+  specificity: number;
+  index: number;
+}
+
+// How specific a range's match of an offer is, or -1 when it does not match
+type Matcher = (range: Range, offer: Range) => number;
+
+// Short names accepted by req.accepts() and res.format()
+const TYPE_ALIASES: Record<string, string> = {
+  html: 'text/html',
+  text: 'text/plain',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  css: 'text/css',
+  js: 'text/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  pdf: 'application/pdf',
+  form: 'application/x-www-form-urlencoded',
+  multipart: 'multipart/form-data',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+// 'json' -> 'application/json'; full media types are returned as they are
+export function mediaType(type: string): string {
+  if (type.includes('/')) return type;
+  return TYPE_ALIASES[type.toLowerCase()] ?? `application/${type.toLowerCase()}`;
+}
+
+function parseRange(entry: string, index: number): Range {
+  const [value, ...params] = entry.split(';').map(part => part.trim());
+  const range: Range = { value: value.toLowerCase(), params: {}, q: 1, index };
+
+  for (const param of params) {
+    const eq = param.indexOf('=');
+    if (eq < 0) continue;
+    const key = param.slice(0, eq).trim().toLowerCase();
+    const paramValue = param.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (key === 'q') {
+      const q = Number(paramValue);
+      range.q = Number.isNaN(q) ? 0 : Math.min(1, Math.max(0, q));
+    } else {
+      range.params[key] = paramValue;
+    }
+  }
+  return range;
+}
+
+function parseHeader(header: string): Range[] {
+  return header.split(',')
+    .map((entry, index) => parseRange(entry, index))
+    .filter(range => range.value !== '');
+}
+
+function priority(ranges: Range[], offer: Range, match: Matcher): Priority | null {
+  let best: Priority | null = null;
+  for (const range of ranges) {
+    const specificity = match(range, offer);
+    if (specificity < 0) continue;
+    if (!best || specificity > best.specificity || (specificity === best.specificity && range.q > best.q)) {
+      best = { q: range.q, specificity, index: range.index };
+    }
+  }
+  return best;
+}
+
+// Acceptable offers, best first. Without offers, the values the header
+// accepts, best first.
+function negotiate(header: string | null, offers: string[], match: Matcher, fallback: string): string[] {
+  if (header === null || header.trim() === '') {
+    return offers.length > 0 ? [...offers] : [fallback];
+  }
+
+  const ranges = parseHeader(header);
+  if (offers.length === 0) {
+    return ranges
+      .filter(range => range.q > 0)
+      .sort((a, b) => b.q - a.q || a.index - b.index)
+      .map(range => range.value);
+  }
+
+  return offers
+    .map((offer, index) => ({ offer, index, priority: priority(ranges, parseRange(offer, index), match) }))
+    .filter(({ priority }) => priority !== null && priority.q > 0)
+    .sort((a, b) => b.priority!.q - a.priority!.q
+      || b.priority!.specificity - a.priority!.specificity
+      || a.priority!.index - b.priority!.index
+      || a.index - b.index)
+    .map(({ offer }) => offer);
+}
+
+const matchMediaType: Matcher = (range, offer) => {
+  const [rangeType, rangeSubtype = '*'] = range.value.split('/');
+  const [offerType, offerSubtype] = mediaType(offer.value).split('/');
+  let specificity = 0;
+
+  if (rangeType !== '*') {
+    if (rangeType !== offerType) return -1;
+    specificity += 4;
+  }
+  if (rangeSubtype !== '*') {
+    if (rangeSubtype !== offerSubtype) return -1;
+    specificity += 2;
+  }
+  const params = Object.entries(range.params);
+  if (params.length > 0) {
+    if (!params.every(([key, value]) => offer.params[key]?.toLowerCase() === value.toLowerCase())) return -1;
+    specificity += 1;
+  }
+  return specificity;
+};
+
+// 'en' matches 'en-US' and the other way round, less specifically than 'en-US'
+const matchLanguage: Matcher = (range, offer) => {
+  if (range.value === '*') return 0;
+  if (range.value === offer.value) return 2;
+  if (offer.value.startsWith(`${range.value}-`) || range.value.startsWith(`${offer.value}-`)) return 1;
+  return -1;
+};
+
+const matchToken: Matcher = (range, offer) => {
+  if (range.value === '*') return 0;
+  return range.value === offer.value ? 1 : -1;
+};
+
+export function preferredMediaTypes(header: string | null, offers: string[] = []): string[] {
+  return negotiate(header, offers, matchMediaType, '*/*');
+}
+
+export function preferredLanguages(header: string | null, offers: string[] = []): string[] {
+  return negotiate(header, offers, matchLanguage, '*');
+}
+
+export function preferredCharsets(header: string | null, offers: string[] = []): string[] {
+  return negotiate(header, offers, matchToken, '*');
+}
+
+// identity is acceptable unless the header rules it out, as after all other
+// encodings the client accepts
+export function preferredEncodings(header: string | null, offers: string[] = []): string[] {
+  if (header === null || header.trim() === '') {
+    return negotiate(header, offers, matchToken, 'identity');
+  }
+
+  const ranges = parseHeader(header);
+  if (!ranges.some(range => range.value === 'identity' || range.value === '*')) {
+    const lowest = Math.min(...ranges.map(range => range.q).filter(q => q > 0), 1);
+    header = `${header}, identity;q=${lowest}`;
+  }
+  return negotiate(header, offers, matchToken, 'identity');
+}
@@ -0,0 +1,294 @@
+// openapi.ts - OpenAPI 3.1 documents for Halin apps
+// Documents are built from app.routes(): paths and params come from the route
+// patterns, summaries and responses from route metadata, and parameter and
+// body schemas from the validate() handlers on each route.
+
+import type { Halin, Handler, RouteInfo } from './halin';
+import { toJSONSchema, type JSONSchema, type SchemaLike } from './validator';
+
+export interface RouteResponse {
+  description?: string;
+  // Schema of the response body
+  body?: SchemaLike;
+  // Media type of the body (default application/json)
+  contentType?: string;
+}
+
+// Route metadata given with the route option `meta`
+export interface RouteMeta {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  // Defaults to the route name
+  operationId?: string;
+  deprecated?: boolean;
+  // Leave the route out of OpenAPI documents
+  hidden?: boolean;
+  // Responses by status code, e.g. { 200: { description: 'The user', body: UserSchema } }
+  responses?: Record<number | string, RouteResponse>;
+  // Anything else, for your own tooling
+  [key: string]: unknown;
+}
+
+export interface OpenAPIOptions {
+  info?: {
+    title?: string;
+    version?: string;
+    description?: string;
+  };
+  servers?: { url: string; description?: string }[];
+  // Converts schemas that cannot describe themselves, e.g. z.toJSONSchema
+  schema?: (schema: SchemaLike) => JSONSchema | undefined;
+}
+
+export interface OpenAPIDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, unknown>>;
+}
+
+export interface ApiDocsOptions {
+  // URL of the OpenAPI document (default '/openapi.json')
+  url?: string;
+  // Page title (default 'API Reference')
+  title?: string;
+}
+
+const METHODS = new Set(['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH', 'TRACE']);
+
+// '/users/:id/*' -> '/users/{id}/{wildcard}'
+function openAPIPath(path: string): string {
+  return path.split('/').map(segment => {
+    if (segment === '*') return '{wildcard}';
+    return segment.startsWith(':') ? `{${segment.slice(1)}}` : segment;
+  }).join('/');
+}
+
+function describe(schema: SchemaLike | undefined, options: OpenAPIOptions): JSONSchema | undefined {
+  if (!schema) return undefined;
+  return toJSONSchema(schema) ?? options.schema?.(schema) ?? undefined;
+}
+
+// Parameters of one location from an object schema's properties
+function parameters(location: 'query' | 'header', schema: JSONSchema | undefined): Record<string, unknown>[] {
+  const properties = (schema?.properties ?? {}) as Record<string, JSONSchema>;
+  const required = (schema?.required ?? []) as string[];
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema: property
+  }));
+}
+
+function operation(route: RouteInfo, options: OpenAPIOptions): Record<string, unknown> {
+  const { meta, schemas } = route;
+  const params = describe(schemas.params, options);
+  const paramSchemas = (params?.properties ?? {}) as Record<string, JSONSchema>;
+
+  const pathParams = route.path.split('/')
+    .filter(segment => segment.startsWith(':') || segment === '*')
+    .map(segment => {
+      const name = segment === '*' ? 'wildcard' : segment.slice(1);
+      return { name, in: 'path', required: true, schema: paramSchemas[name] ?? { type: 'string' } };
+    });
+
+  const op: Record<string, unknown> = {};
+  if (meta.summary) op.summary = meta.summary;
+  if (meta.description) op.description = meta.description;
+  if (meta.tags) op.tags = meta.tags;
+  if (meta.operationId ?? route.name) op.operationId = meta.operationId ?? route.name;
+  if (meta.deprecated) op.deprecated = true;
+
+  const allParams = [
+    ...pathParams,
+    ...parameters('query', describe(schemas.query, options)),
+    ...parameters('header', describe(schemas.headers, options))
+  ];
+  if (allParams.length > 0) op.parameters = allParams;
+
+  if (schemas.body) {
+    op.requestBody = {
+      required: (schemas.body as { isOptional?: unknown }).isOptional !== true,
+      content: { 'application/json': { schema: describe(schemas.body, options) ?? {} } }
+    };
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(meta.responses ?? { 200: {} })) {
+    const body = describe(response.body, options);
+    responses[status] = {
+      description: response.description ?? '',
+      ...(response.body && { content: { [response.contentType ?? 'application/json']: { schema: body ?? {} } } })
+    };
+  }
+  if (Object.keys(schemas).length > 0) {
+    responses['400'] ??= { description: 'Validation failed' };
+  }
+  op.responses = responses;
+
+  return op;
+}
+
+// Build an OpenAPI 3.1 document for the routes registered on app so far.
+// Routes for all(), ws() and non-standard methods are left out, as are
+// routes with meta.hidden.
+export function generateOpenAPI(app: Halin, options: OpenAPIOptions = {}): OpenAPIDocument {
+  const paths: OpenAPIDocument['paths'] = {};
+
+  for (const route of app.routes()) {
+    if (!METHODS.has(route.method) || route.meta.hidden) continue;
+    const path = openAPIPath(route.path);
+    paths[path] ??= {};
+    paths[path][route.method.toLowerCase()] = operation(route, options);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.info?.title ?? 'API',
+      version: options.info?.version ?? '1.0.0',
+      ...(options.info?.description && { description: options.info.description })
+    },
+    ...(options.servers && { servers: options.servers }),
+    paths
+  };
+}
+
+// Route handler serving the OpenAPI document of app as JSON. The document
+// is built per request, so routes registered after this one are included.
+//
+//   app.get('/openapi.json', openapi(app, { info: { title: 'Shop' } }), { meta: { hidden: true } })
+export function openapi(app: Halin, options: OpenAPIOptions = {}): Handler {
+  return (req, res) => {
+    res.json(generateOpenAPI(app, options));
+  };
+}
+
+// Escape text for HTML and for embedding in an inline script
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function scriptJSON(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+// Route handler serving a self-contained reference page for an OpenAPI
+// document: every operation with its parameters, schemas and a form to try
+// it out. It loads nothing from a CDN, so it works offline.
+export function apiDocs(options: ApiDocsOptions = {}): Handler {
+  const html = docsPage(options.url ?? '/openapi.json', options.title ?? 'API Reference');
+  return (req, res) => {
+    res.header('Content-Type', 'text/html; charset=utf-8');
+    res.body = html;
+  };
+}
+
+function docsPage(url: string, title: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #222; }
+details { border: 1px solid #ddd; border-radius: 4px; margin: 8px 0; }
+summary { cursor: pointer; padding: 8px; font-family: ui-monospace, monospace; }
+details > div { padding: 0 12px 12px; }
+.method { display: inline-block; min-width: 64px; font-weight: bold; text-transform: uppercase; }
+.get { color: #1565c0; } .post { color: #2e7d32; } .put, .patch { color: #ef6c00; } .delete { color: #c62828; }
+.deprecated { text-decoration: line-through; }
+pre { background: #f5f5f5; padding: 8px; overflow: auto; }
+label { display: block; margin: 4px 0; }
+input, textarea { font-family: ui-monospace, monospace; width: 100%; box-sizing: border-box; }
+</style>
+</head>
+<body>
+<h1 id="title">${escapeHTML(title)}</h1>
+<p id="description"></p>
+<main id="operations">Loading...</main>
+<script>
+const specUrl = ${scriptJSON(url)};
+
+function el(tag, attrs, ...children) {
+  const node = document.createElement(tag);
+  Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+  children.flat().forEach(child => node.append(child));
+  return node;
+}
+
+function schemaBlock(label, schema) {
+  return [el('h4', {}, label), el('pre', {}, JSON.stringify(schema, null, 2))];
+}
+
+function tryItOut(path, method, op) {
+  const form = el('form', {});
+  const params = op.parameters || [];
+  params.forEach(param => form.append(el('label', {}, param.name + ' (' + param.in + (param.required ? ', required' : '') + ')',
+    el('input', { name: param.in + ':' + param.name }))));
+  if (op.requestBody) {
+    form.append(el('label', {}, 'Body (JSON)', el('textarea', { name: 'body', rows: '6' })));
+  }
+  const output = el('pre', {});
+  form.append(el('button', { type: 'submit' }, 'Send'), output);
+
+  form.addEventListener('submit', async event => {
+    event.preventDefault();
+    const data = new FormData(form);
+    let url = path;
+    const query = new URLSearchParams();
+    const headers = {};
+    params.forEach(param => {
+      const value = data.get(param.in + ':' + param.name);
+      if (!value) return;
+      if (param.in === 'path') url = url.replace('{' + param.name + '}', encodeURIComponent(value));
+      if (param.in === 'query') query.append(param.name, value);
+      if (param.in === 'header') headers[param.name] = value;
+    });
+    const init = { method: method.toUpperCase(), headers };
+    if (op.requestBody && data.get('body')) {
+      headers['Content-Type'] = 'application/json';
+      init.body = data.get('body');
+    }
+    output.textContent = 'Sending...';
+    try {
+      const response = await fetch(url + (query.size ? '?' + query : ''), init);
+      output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + await response.text();
+    } catch (err) {
+      output.textContent = String(err);
+    }
+  });
+  return [el('h4', {}, 'Try it out'), form];
+}
+
+function operationView(path, method, op) {
+  const title = el('span', { class: op.deprecated ? 'deprecated' : '' }, path);
+  const summary = el('summary', {}, el('span', { class: 'method ' + method }, method), ' ', title, op.summary ? ' - ' + op.summary : '');
+  const body = el('div', {});
+  if (op.description) body.append(el('p', {}, op.description));
+  if (op.parameters) body.append(...schemaBlock('Parameters', op.parameters));
+  if (op.requestBody) body.append(...schemaBlock('Request body', op.requestBody.content));
+  body.append(...schemaBlock('Responses', op.responses));
+  body.append(...tryItOut(path, method, op));
+  return el('details', {}, summary, body);
+}
+
+fetch(specUrl)
+  .then(response => response.json())
+  .then(spec => {
+    document.getElementById('description').textContent = spec.info.description || '';
+    const operations = Object.entries(spec.paths).flatMap(([path, item]) =>
+      Object.entries(item).map(([method, op]) => operationView(path, method, op)));
+    document.getElementById('operations').replaceChildren(...operations);
+  })
+  .catch(err => {
+    document.getElementById('operations').textContent = 'Could not load ' + specUrl + ': ' + err;
+  });
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,258 @@
+// ratelimit.ts - Rate limiting middleware with pluggable stores for Halin
+// Each request runs one step of the chosen algorithm on the state kept for
+// its key. Stores apply the step atomically, so several processes can share
+// limits through a common store.
+
+import { Database } from 'bun:sqlite';
+import { HalinError } from './error';
+import type { Handler, Request } from './halin';
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+// Algorithm state for one key, e.g. { start, count } for a fixed window
+export type RateLimitState = Record<string, number>;
+
+export interface RateLimitStore {
+  // Replace the state of key with update(current state) atomically and
+  // return the new state. Missing and expired keys have a null state; the
+  // new state expires after ttl milliseconds.
+  update(key: string, ttl: number, update: (state: RateLimitState | null) => RateLimitState): Promise<RateLimitState> | RateLimitState;
+  // Forget the state of key, lifting its limit
+  reset(key: string): Promise<void> | void;
+}
+
+export interface RateLimitOptions {
+  // default 'fixed-window'
+  algorithm?: RateLimitAlgorithm;
+  // Requests allowed per window (default 100). Token buckets refill at this
+  // rate and hold this many tokens unless burst is set.
+  limit?: number;
+  // Window length in seconds (default 60)
+  window?: number;
+  // Token bucket capacity (default limit)
+  burst?: number;
+  // Key requests are counted under (default the client IP)
+  key?: (req: Request) => string | Promise<string>;
+  // Requests that are not counted, e.g. health checks
+  skip?: (req: Request) => boolean | Promise<boolean>;
+  // Where state is kept (default a MemoryRateLimitStore)
+  store?: RateLimitStore;
+  // Namespace for keys, so limiters can share a store (default 'ratelimit')
+  prefix?: string;
+  // Send RateLimit-* headers (default true); Retry-After is always sent on 429
+  headers?: boolean;
+  // Message of the 429 error (default 'Too Many Requests')
+  message?: string;
+}
+
+interface Step {
+  state: RateLimitState;
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the limit is fully restored
+  reset: number;
+  // Milliseconds until a denied request may be retried
+  retryAfter: number;
+}
+
+type Algorithm = (state: RateLimitState | null, now: number, limit: number, windowMs: number, burst: number) => Step;
+
+// Windows aligned to multiples of the window length; at most limit requests
+// per window
+const fixedWindow: Algorithm = (state, now, limit, windowMs) => {
+  const start = now - (now % windowMs);
+  const count = state && state.start === start ? state.count : 0;
+  const allowed = count < limit;
+  const used = allowed ? count + 1 : count;
+  const reset = start + windowMs - now;
+
+  return { state: { start, count: used }, allowed, remaining: limit - used, reset, retryAfter: reset };
+};
+
+// Fixed windows where the previous window's count is weighted by how much of
+// it still overlaps the sliding window, smoothing bursts at window edges
+const slidingWindow: Algorithm = (state, now, limit, windowMs) => {
+  const start = now - (now % windowMs);
+  let count = 0;
+  let previous = 0;
+  if (state?.start === start) {
+    count = state.count;
+    previous = state.previous;
+  } else if (state?.start === start - windowMs) {
+    previous = state.count;
+  }
+
+  const weight = 1 - (now - start) / windowMs;
+  const estimate = previous * weight + count;
+  const allowed = estimate + 1 <= limit;
+  if (allowed) count++;
+
+  const end = start + windowMs - now;
+  // The previous window's weight must drop until one more request fits
+  const retryAfter = count + 1 <= limit && previous > 0
+    ? Math.max(0, start + windowMs * (1 - (limit - 1 - count) / previous) - now)
+    : end;
+
+  return {
+    state: { start, count, previous },
+    allowed,
+    remaining: Math.max(0, Math.floor(limit - estimate - (allowed ? 1 : 0))),
+    // Requests in this window keep counting through the next one
+    reset: count > 0 ? end + windowMs : end,
+    retryAfter
+  };
+};
+
+// Buckets of burst tokens refilled at limit tokens per window; each request
+// takes one
+const tokenBucket: Algorithm = (state, now, limit, windowMs, burst) => {
+  const rate = limit / windowMs;
+  const tokens = state ? Math.min(burst, state.tokens + (now - state.updated) * rate) : burst;
+  const allowed = tokens >= 1;
+  const left = allowed ? tokens - 1 : tokens;
+
+  return {
+    state: { tokens: left, updated: now },
+    allowed,
+    remaining: Math.floor(left),
+    reset: (burst - left) / rate,
+    retryAfter: (1 - left) / rate
+  };
+};
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm> = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket
+};
+
+function seconds(ms: number): string {
+  return String(Math.max(0, Math.ceil(ms / 1000)));
+}
+
+export function rateLimit(options: RateLimitOptions = {}): Handler {
+  const algorithmName = options.algorithm ?? 'fixed-window';
+  const algorithm = ALGORITHMS[algorithmName];
+  if (!algorithm) {
+    throw new Error(`Unknown rate limit algorithm: ${algorithmName}`);
+  }
+
+  const limit = options.limit ?? 100;
+  const windowMs = (options.window ?? 60) * 1000;
+  const burst = options.burst ?? limit;
+  const store = options.store ?? new MemoryRateLimitStore();
+  const prefix = options.prefix ?? 'ratelimit';
+  const keyOf = options.key ?? (req => req.ip ?? 'unknown');
+  // State must outlive the longest period the algorithm looks back on
+  const ttl = algorithmName === 'sliding-window'
+    ? windowMs * 2
+    : algorithmName === 'token-bucket' ? burst / limit * windowMs : windowMs;
+
+  return async (req, res, next) => {
+    if (await options.skip?.(req)) {
+      await next?.();
+      return;
+    }
+
+    const key = `${prefix}:${await keyOf(req)}`;
+    const now = Date.now();
+    let step!: Step;
+    await store.update(key, ttl, state => {
+      step = algorithm(state, now, limit, windowMs, burst);
+      return step.state;
+    });
+
+    if (options.headers ?? true) {
+      res.header('RateLimit-Limit', String(algorithmName === 'token-bucket' ? burst : limit));
+      res.header('RateLimit-Remaining', String(step.remaining));
+      res.header('RateLimit-Reset', seconds(step.reset));
+      res.header('RateLimit-Policy', `${limit};w=${windowMs / 1000}`);
+    }
+
+    if (!step.allowed) {
+      res.header('Retry-After', seconds(step.retryAfter));
+      throw new HalinError(429, options.message ?? 'Too Many Requests');
+    }
+
+    await next?.();
+  };
+}
+
+// In-process store; expired keys are swept at most once a minute
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expires: number }>();
+  private lastPrune = 0;
+
+  update(key: string, ttl: number, update: (state: RateLimitState | null) => RateLimitState): RateLimitState {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const state = update(entry && entry.expires > now ? entry.state : null);
+    this.entries.set(key, { state, expires: now + ttl });
+
+    if (now - this.lastPrune > 60_000) {
+      this.prune();
+    }
+    return state;
+  }
+
+  reset(key: string): void {
+    this.entries.delete(key);
+  }
+
+  // Remove expired keys
+  prune(): void {
+    this.lastPrune = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= this.lastPrune) this.entries.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// bun:sqlite store; pass a Database or a filename (default in-memory). A
+// file shared by several processes gives them common limits.
+export class SqliteRateLimitStore implements RateLimitStore {
+  private db: Database;
+  private lastPrune = 0;
+
+  constructor(database: Database | string = ':memory:', private table: string = 'halin_rate_limits') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid rate limit table name: ${table}`);
+    }
+    this.db = typeof database === 'string' ? new Database(database) : database;
+    this.db.run(`CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, state TEXT NOT NULL, expires INTEGER NOT NULL)`);
+  }
+
+  update(key: string, ttl: number, update: (state: RateLimitState | null) => RateLimitState): RateLimitState {
+    // IMMEDIATE takes the write lock up front, so processes cannot interleave
+    const state = this.db.transaction(() => {
+      const now = Date.now();
+      const row = this.db
+        .query(`SELECT state FROM ${this.table} WHERE key = ? AND expires > ?`)
+        .get(key, now) as { state: string } | null;
+      const next = update(row ? JSON.parse(row.state) : null);
+      this.db
+        .query(`INSERT OR REPLACE INTO ${this.table} (key, state, expires) VALUES (?, ?, ?)`)
+        .run(key, JSON.stringify(next), now + ttl);
+      return next;
+    }).immediate();
+
+    if (Date.now() - this.lastPrune > 60_000) {
+      this.prune();
+    }
+    return state;
+  }
+
+  reset(key: string): void {
+    this.db.query(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  // Remove expired keys
+  prune(): void {
+    this.lastPrune = Date.now();
+    this.db.query(`DELETE FROM ${this.table} WHERE expires <= ?`).run(this.lastPrune);
+  }
+}
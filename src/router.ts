@@ -0,0 +1,160 @@
+// router.ts - Radix tree router for Halin
+// Routes are compiled into a tree of path segments at registration time, so
+// lookups cost one walk of the request path instead of a regex per route.
+
+interface RouteEntry<T> {
+  value: T;
+  paramNames: string[];
+}
+
+interface Node<T> {
+  children: Map<string, Node<T>>;
+  param: Node<T> | null;
+  wildcard: Node<T> | null;
+  routes: Map<string, RouteEntry<T>>;
+}
+
+// Method that matches requests of any method not registered explicitly
+export const ANY_METHOD = '*';
+
+export interface RouterMatch<T> {
+  value: T;
+  params: Record<string, string>;
+}
+
+function createNode<T>(): Node<T> {
+  return {
+    children: new Map(),
+    param: null,
+    wildcard: null,
+    routes: new Map()
+  };
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export class Router<T> {
+  private root: Node<T> = createNode();
+
+  // Register a value for method + path. Segments are matched as:
+  //   static  - exact text, highest priority
+  //   :name   - any non-empty segment, captured as params[name]
+  //   *       - the rest of the path (must be the last segment)
+  // The first registration of a method + path wins. Routes registered for
+  // ANY_METHOD match every method without a route of its own.
+  add(method: string, path: string, value: T): void {
+    const segments = path.split('/');
+    const paramNames: string[] = [];
+    let node = this.root;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+
+      if (segment === '*') {
+        if (i !== segments.length - 1) {
+          throw new Error(`Wildcard '*' must be the last segment of route path: ${path}`);
+        }
+        node = node.wildcard ??= createNode();
+      } else if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        node = node.param ??= createNode();
+      } else {
+        let child = node.children.get(segment);
+        if (!child) {
+          child = createNode();
+          node.children.set(segment, child);
+        }
+        node = child;
+      }
+    }
+
+    if (!node.routes.has(method)) {
+      node.routes.set(method, { value, paramNames });
+    }
+  }
+
+  // Find the route registered for method + path
+  find(method: string, path: string): RouterMatch<T> | null {
+    const values: string[] = [];
+    const entry = this.match(this.root, path.split('/'), 0, method, values);
+    if (!entry) return null;
+
+    const params: Record<string, string> = {};
+    entry.paramNames.forEach((name, index) => {
+      params[name] = decodeSegment(values[index]);
+    });
+
+    return { value: entry.value, params };
+  }
+
+  // Methods registered for any route matching path, regardless of priority
+  allowedMethods(path: string): string[] {
+    const methods = new Set<string>();
+    this.collect(this.root, path.split('/'), 0, methods);
+    return [...methods];
+  }
+
+  // Depth-first walk trying static, then param, then wildcard children so that
+  // more specific routes win regardless of registration order
+  private match(
+    node: Node<T>,
+    segments: string[],
+    index: number,
+    method: string,
+    values: string[]
+  ): RouteEntry<T> | null {
+    if (index === segments.length) {
+      return node.routes.get(method) ?? node.routes.get(ANY_METHOD) ?? null;
+    }
+
+    const segment = segments[index];
+
+    const child = node.children.get(segment);
+    if (child) {
+      const found = this.match(child, segments, index + 1, method, values);
+      if (found) return found;
+    }
+
+    if (node.param && segment !== '') {
+      values.push(segment);
+      const found = this.match(node.param, segments, index + 1, method, values);
+      if (found) return found;
+      values.pop();
+    }
+
+    if (node.wildcard) {
+      const found = node.wildcard.routes.get(method) ?? node.wildcard.routes.get(ANY_METHOD);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  private collect(node: Node<T>, segments: string[], index: number, methods: Set<string>): void {
+    if (index === segments.length) {
+      node.routes.forEach((_, method) => methods.add(method));
+      return;
+    }
+
+    const segment = segments[index];
+
+    const child = node.children.get(segment);
+    if (child) {
+      this.collect(child, segments, index + 1, methods);
+    }
+
+    if (node.param && segment !== '') {
+      this.collect(node.param, segments, index + 1, methods);
+    }
+
+    if (node.wildcard) {
+      node.wildcard.routes.forEach((_, method) => methods.add(method));
+    }
+  }
+}
@@ -0,0 +1,266 @@
+// session.ts - Session middleware with pluggable stores for Halin
+// Sessions are loaded before the rest of the chain runs and committed once it
+// finishes. Data lives in a SessionStore keyed by a random ID cookie, or with
+// cookieOnly in an encrypted cookie (needs the cookieSecret option).
+
+import { Database } from 'bun:sqlite';
+import { randomBytes } from 'node:crypto';
+import type { CookieOptions } from './cookie';
+import type { Handler } from './halin';
+
+export type SessionData = Record<string, unknown>;
+
+export interface StoredSession {
+  data: SessionData;
+  // Expiry as a millisecond timestamp
+  expires: number;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<StoredSession | null> | StoredSession | null;
+  set(id: string, session: StoredSession): Promise<void> | void;
+  destroy(id: string): Promise<void> | void;
+}
+
+export interface SessionOptions {
+  // Cookie name (default 'halin.sid')
+  name?: string;
+  // Where session data is kept (default a MemoryStore)
+  store?: SessionStore;
+  // Keep the data in an encrypted cookie instead of a store
+  cookieOnly?: boolean;
+  // Lifetime in seconds (default one day)
+  ttl?: number;
+  // Push the expiry back on every request (default true)
+  rolling?: boolean;
+  // Attributes for the session cookie (default HttpOnly, SameSite=Lax)
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires' | 'encrypted'>;
+}
+
+export interface Session {
+  readonly id: string;
+  get<T = unknown>(key: string): T | undefined;
+  set(key: string, value: unknown): void;
+  delete(key: string): void;
+  // End the session; its data is removed and the cookie cleared
+  destroy(): Promise<void>;
+  // Move the data to a new session ID, e.g. after login, to prevent fixation
+  regenerate(): Promise<void>;
+}
+
+// Cookies cannot reliably hold more than about 4 KB
+const MAX_COOKIE_SIZE = 4096;
+
+function createSessionId(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+class RequestSession implements Session {
+  modified = false;
+  destroyed = false;
+  previousId: string | null = null;
+
+  constructor(public id: string, public data: SessionData, public expires: number, public isNew: boolean) {}
+
+  get<T = unknown>(key: string): T | undefined {
+    return this.data[key] as T | undefined;
+  }
+
+  set(key: string, value: unknown): void {
+    this.data[key] = value;
+    this.modified = true;
+  }
+
+  delete(key: string): void {
+    delete this.data[key];
+    this.modified = true;
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    this.data = {};
+  }
+
+  async regenerate(): Promise<void> {
+    this.previousId ??= this.isNew ? null : this.id;
+    this.id = createSessionId();
+    this.isNew = true;
+    this.modified = true;
+  }
+}
+
+const notInstalled = (): never => {
+  throw new Error('req.session is not available; register the session() middleware first');
+};
+
+// Placeholder used on requests that did not go through session()
+export const missingSession: Session = {
+  id: '',
+  get: notInstalled,
+  set: notInstalled,
+  delete: notInstalled,
+  destroy: notInstalled,
+  regenerate: notInstalled
+};
+
+export function session(options: SessionOptions = {}): Handler {
+  const name = options.name ?? 'halin.sid';
+  const ttl = options.ttl ?? 60 * 60 * 24;
+  const rolling = options.rolling ?? true;
+  const store = options.store ?? new MemoryStore();
+  const cookieOptions: CookieOptions = { httpOnly: true, sameSite: 'Lax', ...options.cookie };
+
+  return async (req, res, next) => {
+    const now = Date.now();
+    let current: RequestSession | null = null;
+
+    if (options.cookieOnly) {
+      const payload = req.signedCookies[name];
+      if (payload) {
+        try {
+          const stored = JSON.parse(payload) as StoredSession;
+          if (stored.expires > now) {
+            current = new RequestSession('', stored.data, stored.expires, false);
+          }
+        } catch {
+          // Unreadable payload, start a new session
+        }
+      }
+    } else {
+      const id = cookieOptions.signed ? req.signedCookies[name] : req.cookies[name];
+      const stored = id ? await store.get(id) : null;
+      if (id && stored && stored.expires > now) {
+        current = new RequestSession(id, stored.data, stored.expires, false);
+      }
+    }
+
+    const sess = current ?? new RequestSession(options.cookieOnly ? '' : createSessionId(), {}, now + ttl * 1000, true);
+    req.session = sess;
+
+    try {
+      await next?.();
+    } finally {
+      await commit(sess);
+    }
+
+    async function commit(sess: RequestSession): Promise<void> {
+      if (sess.previousId) {
+        await store.destroy(sess.previousId);
+      }
+
+      if (sess.destroyed) {
+        if (!options.cookieOnly && !sess.isNew) {
+          await store.destroy(sess.id);
+        }
+        if (!sess.isNew || sess.previousId) {
+          res.clearCookie(name, cookieOptions);
+        }
+        return;
+      }
+
+      // Untouched new sessions are not saved, so anonymous traffic stays free
+      if (sess.isNew && !sess.modified) return;
+      if (!sess.isNew && !sess.modified && !rolling) return;
+
+      if (rolling || sess.isNew) {
+        sess.expires = Date.now() + ttl * 1000;
+      }
+      const stored: StoredSession = { data: sess.data, expires: sess.expires };
+      const maxAge = Math.max(0, Math.round((sess.expires - Date.now()) / 1000));
+
+      if (options.cookieOnly) {
+        const payload = JSON.stringify(stored);
+        if (payload.length > MAX_COOKIE_SIZE) {
+          throw new Error(`Session data is too large for cookieOnly mode (${payload.length} bytes)`);
+        }
+        res.cookie(name, payload, { ...cookieOptions, maxAge, encrypted: true });
+        return;
+      }
+
+      await store.set(sess.id, stored);
+      if (sess.isNew || rolling) {
+        res.cookie(name, sess.id, { ...cookieOptions, maxAge });
+      }
+    }
+  };
+}
+
+// In-memory store that evicts the least recently used session once full
+export class MemoryStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>();
+
+  constructor(private max: number = 10000) {}
+
+  get(id: string): StoredSession | null {
+    const stored = this.sessions.get(id);
+    if (!stored) return null;
+
+    this.sessions.delete(id);
+    if (stored.expires <= Date.now()) return null;
+
+    // Re-insert so Map order tracks recency
+    this.sessions.set(id, stored);
+    // Copies keep uncommitted changes out of the store, like any external store
+    return structuredClone(stored);
+  }
+
+  set(id: string, session: StoredSession): void {
+    this.sessions.delete(id);
+    this.sessions.set(id, structuredClone(session));
+
+    while (this.sessions.size > this.max) {
+      const oldest = this.sessions.keys().next().value!;
+      this.sessions.delete(oldest);
+    }
+  }
+
+  destroy(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+}
+
+// bun:sqlite store; pass a Database or a filename (default in-memory)
+export class SqliteStore implements SessionStore {
+  private db: Database;
+  private lastPrune = 0;
+
+  constructor(database: Database | string = ':memory:', private table: string = 'halin_sessions') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid session table name: ${table}`);
+    }
+    this.db = typeof database === 'string' ? new Database(database) : database;
+    this.db.run(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL, expires INTEGER NOT NULL)`);
+  }
+
+  get(id: string): StoredSession | null {
+    const row = this.db
+      .query(`SELECT data, expires FROM ${this.table} WHERE id = ? AND expires > ?`)
+      .get(id, Date.now()) as { data: string; expires: number } | null;
+    return row ? { data: JSON.parse(row.data), expires: row.expires } : null;
+  }
+
+  set(id: string, session: StoredSession): void {
+    this.db
+      .query(`INSERT OR REPLACE INTO ${this.table} (id, data, expires) VALUES (?, ?, ?)`)
+      .run(id, JSON.stringify(session.data), session.expires);
+
+    // Sweep expired rows at most once a minute
+    if (Date.now() - this.lastPrune > 60_000) {
+      this.prune();
+    }
+  }
+
+  destroy(id: string): void {
+    this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+  }
+
+  // Remove expired sessions
+  prune(): void {
+    this.lastPrune = Date.now();
+    this.db.query(`DELETE FROM ${this.table} WHERE expires <= ?`).run(this.lastPrune);
+  }
+}
@@ -0,0 +1,165 @@
+// sse.ts - Server-Sent Events writer for Halin
+// Implements the text/event-stream framing: every line of data gets its own
+// 'data:' field, and events may carry an event name, id and retry delay.
+
+import { Logger } from './logger';
+
+export interface SSEMessage {
+  data: any;
+  // Event name; clients listen for it with addEventListener(event, ...)
+  event?: string;
+  // Event ID; clients send the last one back in Last-Event-ID when reconnecting
+  id?: string | number;
+  // Reconnection delay in milliseconds
+  retry?: number;
+}
+
+export interface SSEOptions {
+  // Send a comment every this many milliseconds so proxies keep the
+  // connection open (default off)
+  heartbeat?: number;
+}
+
+export interface SSEResponse {
+  statusCode: number;
+  headers: Headers;
+  body: ReadableStream;
+  // Last-Event-ID sent by a reconnecting client, for resuming the stream
+  readonly lastEventId: string | null;
+  // Aborted once the stream ends, by close() or the client disconnecting
+  readonly signal: AbortSignal;
+  readonly closed: boolean;
+  // Send data, or an SSEMessage object ({ data, event?, id?, retry? })
+  send: (data: any) => void;
+  // Send a comment line, ignored by clients
+  comment: (text: string) => void;
+  // Run callback once the stream ends
+  onClose: (callback: () => void) => void;
+  close: () => void;
+}
+
+const MESSAGE_KEYS = new Set(['data', 'event', 'id', 'retry']);
+
+// Objects with a data field and nothing but message fields are SSEMessages;
+// anything else is sent as data
+export function isMessage(value: unknown): value is SSEMessage {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.includes('data') && keys.every(key => MESSAGE_KEYS.has(key));
+}
+
+function singleLine(field: string, value: string): string {
+  if (/[\r\n\0]/.test(value)) {
+    throw new Error(`SSE ${field} must not contain line breaks or NUL`);
+  }
+  return value;
+}
+
+// Frame a message as an event-stream block ending in a blank line
+export function formatSSE(message: SSEMessage): string {
+  let block = '';
+  if (message.event !== undefined) block += `event: ${singleLine('event', message.event)}\n`;
+  if (message.id !== undefined) block += `id: ${singleLine('id', String(message.id))}\n`;
+  if (message.retry !== undefined) block += `retry: ${Math.max(0, Math.floor(message.retry))}\n`;
+
+  const data = typeof message.data === 'string' ? message.data : JSON.stringify(message.data) ?? '';
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    block += `data: ${line}\n`;
+  }
+  return `${block}\n`;
+}
+
+export class SSEWriter implements SSEResponse {
+  statusCode: number = 200;
+  headers: Headers;
+  body: ReadableStream;
+  readonly lastEventId: string | null;
+  private controller!: ReadableStreamDefaultController;
+  private encoder: TextEncoder;
+  private finished: boolean = false;
+  private aborter = new AbortController();
+  private closeCallbacks: (() => void)[] = [];
+  private heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  // headers are the ones already set on res; the event-stream ones win.
+  // Errors thrown by onClose callbacks go to log.
+  constructor(
+    lastEventId: string | null = null,
+    options: SSEOptions = {},
+    headers?: Headers,
+    private log: Logger = new Logger()
+  ) {
+    this.lastEventId = lastEventId;
+    this.headers = new Headers(headers);
+    this.headers.set('Content-Type', 'text/event-stream');
+    if (!this.headers.has('Cache-Control')) this.headers.set('Cache-Control', 'no-cache');
+    this.headers.set('Connection', 'keep-alive');
+    this.headers.delete('Content-Length');
+    this.encoder = new TextEncoder();
+
+    const self = this;
+    this.body = new ReadableStream({
+      start(controller) {
+        self.controller = controller;
+      },
+      cancel() {
+        // The client went away
+        self.finish();
+      }
+    });
+
+    if (options.heartbeat) {
+      this.heartbeat = setInterval(() => this.comment('heartbeat'), options.heartbeat);
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.aborter.signal;
+  }
+
+  get closed(): boolean {
+    return this.finished;
+  }
+
+  send(data: any): void {
+    this.write(formatSSE(isMessage(data) ? data : { data }));
+  }
+
+  comment(text: string): void {
+    this.write(text.split(/\r\n|\r|\n/).map(line => `: ${line}\n`).join('') + '\n');
+  }
+
+  onClose(callback: () => void): void {
+    if (this.finished) {
+      callback();
+    } else {
+      this.closeCallbacks.push(callback);
+    }
+  }
+
+  close(): void {
+    if (!this.finished) {
+      this.finish();
+      this.controller.close();
+    }
+  }
+
+  private write(chunk: string): void {
+    if (this.finished) return;
+    this.controller.enqueue(this.encoder.encode(chunk));
+  }
+
+  private finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+    clearInterval(this.heartbeat);
+    this.aborter.abort();
+    for (const callback of this.closeCallbacks.splice(0)) {
+      try {
+        callback();
+      } catch (err) {
+        this.log.error('SSE Error', { err });
+      }
+    }
+  }
+}
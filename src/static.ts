@@ -0,0 +1,301 @@
+// static.ts - Static file serving for Halin
+// Files are sent with Bun.file so the body is streamed from disk. Validators
+// (ETag, Last-Modified) come from the file's size and mtime, which lets
+// conditional and Range requests be answered without reading the file.
+
+import { stat } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
+import { HalinError } from './error';
+import type { Handler, Request, Response } from './halin';
+
+export interface FileOptions {
+  // Cache-Control max-age in seconds
+  maxAge?: number;
+  // Add 'immutable' to Cache-Control (for fingerprinted assets)
+  immutable?: boolean;
+  // Send a weak ETag (default true)
+  etag?: boolean;
+  // Send Last-Modified (default true)
+  lastModified?: boolean;
+}
+
+export interface StaticOptions extends FileOptions {
+  // URL prefix the files are served under, e.g. '/assets' (default '/')
+  prefix?: string;
+  // Files tried for directory requests (default ['index.html']); false disables
+  index?: string[] | false;
+  // File served for GET requests that accept text/html and match no file
+  // or route, for SPAs
+  fallback?: string;
+  // Requests for paths with a segment starting with '.': 'ignore' passes
+  // them on (default), 'deny' answers 403 and 'allow' serves them
+  dotfiles?: 'allow' | 'deny' | 'ignore';
+  // Redirect directory requests without a trailing slash (default true)
+  redirect?: boolean;
+  // Pass unmatched requests on with next() (default true); when false they
+  // get a 404
+  fallthrough?: boolean;
+}
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Multi-range responses are limited to keep a single request cheap
+const MAX_RANGES = 20;
+
+function fileETag(size: number, mtime: Date): string {
+  return `W/"${size.toString(16)}-${mtime.getTime().toString(16)}"`;
+}
+
+// Weak comparison of an If-None-Match / If-Range header against an ETag
+function matchesETag(header: string, etag: string): boolean {
+  if (header.trim() === '*') return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+function isFresh(headers: Headers, etag: string | null, mtime: Date): boolean {
+  const noneMatch = headers.get('If-None-Match');
+  if (noneMatch) {
+    return etag !== null && matchesETag(noneMatch, etag);
+  }
+
+  const modifiedSince = Date.parse(headers.get('If-Modified-Since') ?? '');
+  // HTTP dates have second precision
+  return !Number.isNaN(modifiedSince) && Math.floor(mtime.getTime() / 1000) * 1000 <= modifiedSince;
+}
+
+// Parse a 'bytes=' Range header. Returns null when the header should be
+// ignored and an empty list when no range can be satisfied.
+function parseRange(header: string, size: number): ByteRange[] | null {
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const part of match[1].split(',')) {
+    const bounds = part.trim().match(/^(\d*)-(\d*)$/);
+    if (!bounds || (bounds[1] === '' && bounds[2] === '')) return null;
+
+    let start: number;
+    let end: number;
+    if (bounds[1] === '') {
+      // Suffix range: the last n bytes
+      start = Math.max(0, size - Number(bounds[2]));
+      end = size - 1;
+    } else {
+      start = Number(bounds[1]);
+      end = bounds[2] === '' ? size - 1 : Math.min(Number(bounds[2]), size - 1);
+    }
+
+    if (start > end) {
+      if (bounds[2] !== '' && Number(bounds[2]) < start) return null;
+      continue;
+    }
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length > MAX_RANGES) return null;
+
+  // Merge overlapping and adjacent ranges
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Body for a multipart/byteranges response, streaming each slice in turn
+function byteRangesBody(file: Blob, ranges: ByteRange[], type: string, boundary: string): { body: ReadableStream<Uint8Array>; length: number } {
+  const encoder = new TextEncoder();
+  const parts: (Uint8Array | Blob)[] = [];
+
+  ranges.forEach(({ start, end }, index) => {
+    parts.push(encoder.encode(
+      `${index > 0 ? '\r\n' : ''}--${boundary}\r\nContent-Type: ${type}\r\nContent-Range: bytes ${start}-${end}/${file.size}\r\n\r\n`
+    ));
+    parts.push(file.slice(start, end + 1));
+  });
+  parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+
+  const length = parts.reduce((total, part) => total + (part instanceof Blob ? part.size : part.length), 0);
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index === parts.length) {
+        controller.close();
+        return;
+      }
+      const part = parts[index++];
+      controller.enqueue(part instanceof Blob ? new Uint8Array(await part.arrayBuffer()) : part);
+    }
+  });
+
+  return { body, length };
+}
+
+// Send a file on res, answering conditional and Range requests for it.
+// Throws a 404 HalinError when the path is not a readable file.
+export async function sendFile(req: Request, res: Response, path: string, options: FileOptions = {}): Promise<Response> {
+  const stats = await stat(path).catch(() => null);
+  if (!stats?.isFile()) {
+    throw new HalinError(404, 'Not Found');
+  }
+
+  const file = Bun.file(path);
+  const type = file.type;
+  const etag = (options.etag ?? true) ? fileETag(stats.size, stats.mtime) : null;
+
+  if (etag) res.header('ETag', etag);
+  if (options.lastModified ?? true) res.header('Last-Modified', stats.mtime.toUTCString());
+  if (options.maxAge !== undefined) {
+    res.header('Cache-Control', `public, max-age=${Math.floor(options.maxAge)}${options.immutable ? ', immutable' : ''}`);
+  }
+  res.header('Accept-Ranges', 'bytes');
+
+  if ((req.method === 'GET' || req.method === 'HEAD') && isFresh(req.headers, etag, stats.mtime)) {
+    res.status(304);
+    res.body = null;
+    return res;
+  }
+
+  const rangeHeader = req.headers.get('Range');
+  const ifRange = req.headers.get('If-Range');
+  // If-Range only allows a partial response while the file is unchanged
+  const rangeAllowed = !ifRange || (ifRange.includes('"')
+    ? etag !== null && matchesETag(ifRange, etag)
+    : Date.parse(ifRange) >= Math.floor(stats.mtime.getTime() / 1000) * 1000);
+  const ranges = rangeHeader && rangeAllowed && req.method === 'GET'
+    ? parseRange(rangeHeader, stats.size)
+    : null;
+
+  if (ranges?.length === 0) {
+    res.header('Content-Range', `bytes */${stats.size}`);
+    throw new HalinError(416, 'Range Not Satisfiable');
+  }
+
+  if (ranges?.length === 1) {
+    const [{ start, end }] = ranges;
+    res.status(206);
+    res.header('Content-Type', type);
+    res.header('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+    res.header('Content-Length', String(end - start + 1));
+    res.body = file.slice(start, end + 1);
+    return res;
+  }
+
+  if (ranges) {
+    const boundary = crypto.randomUUID().replace(/-/g, '');
+    const { body, length } = byteRangesBody(file, ranges, type, boundary);
+    res.status(206);
+    res.header('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.header('Content-Length', String(length));
+    res.body = body;
+    return res;
+  }
+
+  res.header('Content-Type', type);
+  res.header('Content-Length', String(stats.size));
+  res.body = file;
+  return res;
+}
+
+// Serve files below root for GET and HEAD requests. Register it with
+// app.use() so it runs before routing decides a path is unknown.
+export function serveStatic(root: string, options: StaticOptions = {}): Handler {
+  const base = resolve(root);
+  const prefix = (options.prefix ?? '/').replace(/\/+$/, '');
+  const index = options.index === false ? [] : options.index ?? ['index.html'];
+  const dotfiles = options.dotfiles ?? 'ignore';
+
+  // The SPA fallback only answers browser navigations (Accept naming
+  // text/html) that nothing after this middleware, routes included, handles
+  const notFound = async (req: Request, res: Response, next?: () => Promise<void>): Promise<void> => {
+    const acceptsHtml = /text\/html/i.test(req.headers.get('Accept') ?? '');
+    const fallback = options.fallback && req.method === 'GET' && acceptsHtml
+      ? join(base, options.fallback)
+      : null;
+
+    if (options.fallthrough ?? true) {
+      try {
+        await next?.();
+        return;
+      } catch (err) {
+        if (!fallback || !(err instanceof HalinError) || err.statusCode !== 404) throw err;
+      }
+    }
+    if (fallback) {
+      await sendFile(req, res, fallback, options);
+      return;
+    }
+    throw new HalinError(404, 'Not Found');
+  };
+
+  return async (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      await next?.();
+      return;
+    }
+    if (req.path !== prefix && !req.path.startsWith(`${prefix}/`)) {
+      await next?.();
+      return;
+    }
+
+    let relative: string;
+    try {
+      relative = decodeURIComponent(req.path.slice(prefix.length));
+    } catch {
+      throw new HalinError(400, 'Bad Request: malformed path');
+    }
+    if (relative.includes('\0')) {
+      throw new HalinError(400, 'Bad Request: malformed path');
+    }
+
+    const segments = relative.split(/[\\/]/);
+    if (segments.includes('..')) {
+      throw new HalinError(403, 'Forbidden');
+    }
+    if (dotfiles !== 'allow' && segments.some(segment => segment.startsWith('.'))) {
+      if (dotfiles === 'deny') {
+        throw new HalinError(403, 'Forbidden');
+      }
+      await next?.();
+      return;
+    }
+
+    const path = resolve(base, `.${sep}${relative}`);
+    if (path !== base && !path.startsWith(base + sep)) {
+      throw new HalinError(403, 'Forbidden');
+    }
+
+    const stats = await stat(path).catch(() => null);
+    if (stats?.isFile()) {
+      await sendFile(req, res, path, options);
+      return;
+    }
+
+    if (stats?.isDirectory()) {
+      if (!req.path.endsWith('/') && (options.redirect ?? true)) {
+        const url = new URL(req.url);
+        res.status(301).header('Location', `${url.pathname}/${url.search}`);
+        return;
+      }
+      for (const name of index) {
+        const candidate = join(path, name);
+        if ((await stat(candidate).catch(() => null))?.isFile()) {
+          await sendFile(req, res, candidate, options);
+          return;
+        }
+      }
+    }
+
+    await notFound(req, res, next);
+  };
+}
@@ -0,0 +1,395 @@
+// validator.ts - Declarative request validation for Halin
+// Validates body, query, params and headers with the built-in schema DSL (`s`)
+// or any schema exposing parse/safeParse (Zod) or `~standard` (Valibot, ArkType).
+
+import { HalinError } from './error';
+import type { Handler, NextFunction, Request, Response } from './halin';
+
+type PathSegment = string | number;
+
+interface Issue {
+  path: PathSegment[];
+  message: string;
+}
+
+interface ParseContext {
+  path: PathSegment[];
+  issues: Issue[];
+}
+
+// JSON Schema (draft 2020-12) describing a schema, used for OpenAPI documents
+export type JSONSchema = Record<string, unknown>;
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: { issues: Issue[] } };
+
+// Anything we know how to run: our own schemas, Zod-style or Standard Schema objects
+export interface SchemaLike<T = unknown> {
+  parse?(value: unknown): T;
+  toJSONSchema?(): JSONSchema;
+  safeParse?(value: unknown): { success: boolean; data?: T; error?: any };
+  '~standard'?: {
+    validate(value: unknown): StandardResult<T> | Promise<StandardResult<T>>;
+    types?: { output: T };
+    // Standard JSON Schema, when the library provides it
+    jsonSchema?: { input(options: { target: string }): JSONSchema };
+  };
+}
+
+interface StandardResult<T> {
+  value?: T;
+  issues?: ReadonlyArray<{ message: string; path?: ReadonlyArray<PathSegment | { key: PathSegment }> }>;
+}
+
+// A schema, or a plain object shape of schemas (validated like s.object(shape))
+type SchemaInput = SchemaLike | { [key: string]: SchemaLike };
+
+export interface ValidationSchemas {
+  body?: SchemaInput;
+  query?: SchemaInput;
+  params?: SchemaInput;
+  headers?: SchemaInput;
+}
+
+export type Infer<S> =
+  S extends { parse(value: unknown): infer T } ? T :
+  S extends { '~standard': { types?: { output: infer T } } } ? T :
+  S extends { [key: string]: SchemaLike } ? { [K in keyof S]: Infer<S[K]> } :
+  unknown;
+
+export type ValidatedRequest<S extends ValidationSchemas> = Omit<Request, 'valid'> & {
+  valid: { [K in keyof S]: Infer<S[K]> };
+};
+
+export type ValidatedHandler<S extends ValidationSchemas> =
+  (req: ValidatedRequest<S>, res: Response, next?: NextFunction) => Promise<void> | void;
+
+export class Schema<T> {
+  // json describes accepted values; optional schemas also accept undefined
+  constructor(
+    private checker: (value: unknown, ctx: ParseContext) => T,
+    private json: JSONSchema = {},
+    readonly isOptional: boolean = false
+  ) {}
+
+  // Used by composite schemas to validate nested values in the same context
+  check(value: unknown, ctx: ParseContext): T {
+    return this.checker(value, ctx);
+  }
+
+  safeParse(value: unknown): SafeParseResult<T> {
+    const ctx: ParseContext = { path: [], issues: [] };
+    const data = this.check(value, ctx);
+    return ctx.issues.length > 0
+      ? { success: false, error: { issues: ctx.issues } }
+      : { success: true, data };
+  }
+
+  parse(value: unknown): T {
+    const result = this.safeParse(value);
+    if (!result.success) {
+      throw new HalinError(400, 'Validation failed', toValidationIssues(result.error.issues));
+    }
+    return result.data;
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema((value, ctx) => (value === undefined ? undefined : this.check(value, ctx)), this.json, true);
+  }
+
+  default(defaultValue: T): Schema<T> {
+    return new Schema(
+      (value, ctx) => (value === undefined ? defaultValue : this.check(value, ctx)),
+      { ...this.json, default: defaultValue },
+      true
+    );
+  }
+
+  toJSONSchema(): JSONSchema {
+    return structuredClone(this.json);
+  }
+}
+
+function fail<T>(ctx: ParseContext, message: string): T {
+  ctx.issues.push({ path: ctx.path, message });
+  return undefined as T;
+}
+
+// Absent values fail every schema that is not optional() with 'Required'
+function isMissing(value: unknown): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+// Built-in schema DSL. Strings from query, params, headers and form bodies are
+// coerced to numbers and booleans where the schema asks for them.
+export const s = {
+  string(options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+    return new Schema((value, ctx) => {
+      if (isMissing(value)) return fail(ctx, 'Required');
+      if (typeof value !== 'string') return fail(ctx, 'Expected string');
+      if (options.min !== undefined && value.length < options.min) {
+        return fail(ctx, `Must be at least ${options.min} characters`);
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return fail(ctx, `Must be at most ${options.max} characters`);
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        return fail(ctx, `Must match ${options.pattern}`);
+      }
+      return value;
+    }, withDefined({
+      type: 'string',
+      minLength: options.min,
+      maxLength: options.max,
+      pattern: options.pattern?.source
+    }));
+  },
+
+  number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    return new Schema((value, ctx) => {
+      if (isMissing(value)) return fail(ctx, 'Required');
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || Number.isNaN(num)) return fail(ctx, 'Expected number');
+      if (options.integer && !Number.isInteger(num)) return fail(ctx, 'Expected integer');
+      if (options.min !== undefined && num < options.min) return fail(ctx, `Must be at least ${options.min}`);
+      if (options.max !== undefined && num > options.max) return fail(ctx, `Must be at most ${options.max}`);
+      return num;
+    }, withDefined({
+      type: options.integer ? 'integer' : 'number',
+      minimum: options.min,
+      maximum: options.max
+    }));
+  },
+
+  boolean(): Schema<boolean> {
+    return new Schema((value, ctx) => {
+      if (isMissing(value)) return fail(ctx, 'Required');
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1') return true;
+      if (value === 'false' || value === '0') return false;
+      return fail(ctx, 'Expected boolean');
+    }, { type: 'boolean' });
+  },
+
+  enum<const V extends readonly (string | number)[]>(values: V): Schema<V[number]> {
+    return new Schema((value, ctx) => {
+      if (isMissing(value)) return fail(ctx, 'Required');
+      const match = values.find(candidate => candidate === value || String(candidate) === value);
+      if (match === undefined) return fail(ctx, `Expected one of: ${values.join(', ')}`);
+      return match;
+    }, { enum: [...values] });
+  },
+
+  array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+    return new Schema((value, ctx) => {
+      if (isMissing(value)) return fail(ctx, 'Required');
+      // A single query or form value stands in for a one-element array
+      const items = Array.isArray(value) ? value : [value];
+      if (options.min !== undefined && items.length < options.min) {
+        return fail(ctx, `Must contain at least ${options.min} items`);
+      }
+      if (options.max !== undefined && items.length > options.max) {
+        return fail(ctx, `Must contain at most ${options.max} items`);
+      }
+      return items.map((entry, index) => item.check(entry, { ...ctx, path: [...ctx.path, index] }));
+    }, withDefined({
+      type: 'array',
+      items: item.toJSONSchema(),
+      minItems: options.min,
+      maxItems: options.max
+    }));
+  },
+
+  // Unknown keys are dropped from the parsed output
+  object<Shape extends Record<string, Schema<any>>>(shape: Shape): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+    return new Schema((value, ctx) => {
+      if (isMissing(value)) return fail(ctx, 'Required');
+      if (typeof value !== 'object' || Array.isArray(value)) return fail(ctx, 'Expected object');
+
+      const output: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.check((value as Record<string, unknown>)[key], { ...ctx, path: [...ctx.path, key] });
+        if (parsed !== undefined) output[key] = parsed;
+      }
+      return output as { [K in keyof Shape]: Infer<Shape[K]> };
+    }, {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, toJSONSchema(schema) ?? {}])),
+      required: Object.keys(shape).filter(key => shape[key].isOptional !== true)
+    });
+  },
+
+  any(): Schema<any> {
+    return new Schema(value => value);
+  }
+};
+
+// Leave out keywords whose option was not given
+function withDefined(json: JSONSchema): JSONSchema {
+  return Object.fromEntries(Object.entries(json).filter(([, value]) => value !== undefined));
+}
+
+// JSON Schema for our schemas and libraries that can describe theirs
+// (toJSONSchema(), ArkType's toJsonSchema() or Standard JSON Schema).
+// Returns null when the schema cannot be described.
+export function toJSONSchema(schema: SchemaLike): JSONSchema | null {
+  const describable = schema as SchemaLike & { toJsonSchema?(): JSONSchema };
+  if (typeof describable.toJSONSchema === 'function') return describable.toJSONSchema();
+  if (typeof describable.toJsonSchema === 'function') return describable.toJsonSchema();
+
+  const jsonSchema = schema['~standard']?.jsonSchema;
+  if (typeof jsonSchema?.input === 'function') {
+    return jsonSchema.input({ target: 'draft-2020-12' });
+  }
+  return null;
+}
+
+// Schemas of handlers created by validate(), for route introspection
+const handlerSchemas = new WeakMap<Handler, ValidationSchemas>();
+
+// Validation schemas checked by a handler, if validate() created it
+export function schemasOf(handler: Handler): ValidationSchemas | undefined {
+  return handlerSchemas.get(handler);
+}
+
+function isSchemaLike(value: unknown): value is SchemaLike {
+  if (typeof value !== 'object' || value === null) return false;
+  const schema = value as SchemaLike;
+  return typeof schema.safeParse === 'function'
+    || typeof schema.parse === 'function'
+    || typeof schema['~standard']?.validate === 'function';
+}
+
+function toIssues(error: any): Issue[] {
+  if (Array.isArray(error?.issues)) {
+    return error.issues.map((issue: any) => ({
+      path: (issue.path ?? []).map((segment: any) => (typeof segment === 'object' ? segment.key : segment)),
+      message: issue.message
+    }));
+  }
+  return [{ path: [], message: error?.message ?? 'Invalid value' }];
+}
+
+function toValidationIssues(issues: Issue[], source?: string): ValidationIssue[] {
+  return issues.map(issue => ({
+    field: [source, ...issue.path].filter(segment => segment !== undefined).join('.'),
+    message: issue.message
+  }));
+}
+
+async function runSchema(schema: SchemaLike, value: unknown): Promise<{ data: unknown } | { issues: Issue[] }> {
+  if (schema instanceof Schema || typeof schema.safeParse === 'function') {
+    const result = schema.safeParse!(value);
+    return result.success ? { data: result.data } : { issues: toIssues(result.error) };
+  }
+
+  const standard = schema['~standard'];
+  if (standard && typeof standard.validate === 'function') {
+    const result = await standard.validate(value);
+    return result.issues ? { issues: toIssues(result) } : { data: result.value };
+  }
+
+  try {
+    return { data: await schema.parse!(value) };
+  } catch (error) {
+    return { issues: toIssues(error) };
+  }
+}
+
+// Plain object shapes may hold foreign schemas, which have no check(), so
+// each entry runs on its own. Unknown keys are dropped, as in s.object().
+async function runShape(shape: Record<string, SchemaLike>, value: unknown): Promise<{ data: unknown } | { issues: Issue[] }> {
+  if (value === undefined || value === null) return { issues: [{ path: [], message: 'Required' }] };
+  if (typeof value !== 'object' || Array.isArray(value)) return { issues: [{ path: [], message: 'Expected object' }] };
+
+  const data: Record<string, unknown> = {};
+  const issues: Issue[] = [];
+  for (const [key, schema] of Object.entries(shape)) {
+    const result = await runSchema(schema, (value as Record<string, unknown>)[key]);
+    if ('issues' in result) {
+      issues.push(...result.issues.map(issue => ({ ...issue, path: [key, ...issue.path] })));
+    } else if (result.data !== undefined) {
+      data[key] = result.data;
+    }
+  }
+  return issues.length > 0 ? { issues } : { data };
+}
+
+const SOURCES = ['params', 'query', 'headers', 'body'] as const;
+
+async function readSource(req: Request, source: typeof SOURCES[number]): Promise<unknown> {
+  if (source === 'body') {
+    // The body may not have been parsed yet when the route disables parseBody
+    return req.body ?? await req.parseBody();
+  }
+  if (source === 'headers') {
+    const headers: Record<string, string> = {};
+    req.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return headers;
+  }
+  return req[source];
+}
+
+// Validate request data before the handler runs. Every failing field is
+// reported in a single 400 HalinError. Parsed values are available on
+// req.valid and replace req.body, req.query and req.params.
+//
+//   app.post('/items', validate({ body: { name: s.string() } }), handler)
+//   app.post('/items', validate({ body: ItemSchema }, (req, res) => { req.valid.body }))
+export function validate<S extends ValidationSchemas>(schemas: S, handler?: ValidatedHandler<S>): Handler {
+  const compiled = SOURCES
+    .filter(source => schemas[source] !== undefined)
+    .map(source => {
+      const schema = schemas[source]!;
+      if (isSchemaLike(schema)) {
+        return { source, schema, run: (value: unknown) => runSchema(schema, value) };
+      }
+      // s.object() describes the shape for route introspection
+      const shape = schema as Record<string, SchemaLike>;
+      return {
+        source,
+        schema: s.object(shape as Record<string, Schema<any>>),
+        run: (value: unknown) => runShape(shape, value)
+      };
+    });
+
+  const validator: Handler = async (req, res, next) => {
+    const issues: ValidationIssue[] = [];
+    const valid: Record<string, any> = {};
+
+    for (const { source, run } of compiled) {
+      const result = await run(await readSource(req, source));
+      if ('issues' in result) {
+        issues.push(...toValidationIssues(result.issues, source));
+      } else {
+        valid[source] = result.data;
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new HalinError(400, 'Validation failed', issues);
+    }
+
+    req.valid = { ...req.valid, ...valid };
+    if ('params' in valid) req.params = valid.params;
+    if ('query' in valid) req.query = valid.query;
+    if ('body' in valid) req.body = valid.body;
+
+    if (handler) {
+      await handler(req as ValidatedRequest<S>, res, next);
+    } else if (next) {
+      await next();
+    }
+  };
+
+  handlerSchemas.set(validator, Object.fromEntries(compiled.map(({ source, schema }) => [source, schema])));
+  return validator;
+}
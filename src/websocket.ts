@@ -0,0 +1,104 @@
+// websocket.ts - WebSocket routes for Halin
+// A ws() route is an ordinary route whose last handler upgrades the
+// connection, so middleware (auth, sessions, validation) runs first. Bun
+// calls one set of socket handlers per server; app.websocket forwards each
+// event to the handlers of the route the socket was opened on.
+
+import type { Server, ServerWebSocket, WebSocketHandler } from 'bun';
+import { HalinError } from './error';
+import type { Handler } from './halin';
+import type { Logger } from './logger';
+
+export interface WebSocketData<P = Record<string, string>> {
+  params: P;
+  query: Record<string, string>;
+  path: string;
+  // req.state as left by the middleware that ran before the upgrade
+  state: Record<string, unknown>;
+}
+
+export type HalinWebSocket<P = Record<string, string>> = ServerWebSocket<WebSocketData<P>>;
+
+export interface WebSocketHandlers<P = Record<string, string>> {
+  open?: (ws: HalinWebSocket<P>) => void | Promise<void>;
+  message?: (ws: HalinWebSocket<P>, message: string | Buffer) => void | Promise<void>;
+  close?: (ws: HalinWebSocket<P>, code: number, reason: string) => void | Promise<void>;
+  drain?: (ws: HalinWebSocket<P>) => void | Promise<void>;
+}
+
+// Route handlers for ws(), ending with the socket handlers
+export type WebSocketArgs<P = Record<string, string>> = [...Handler<P>[], WebSocketHandlers<P>];
+
+// Router method used for WebSocket routes; it never matches a real method
+export const WS_METHOD = 'WS';
+
+const HANDLERS = Symbol('halin.websocket.handlers');
+const LOG = Symbol('halin.websocket.log');
+
+interface SocketData extends WebSocketData {
+  [HANDLERS]: WebSocketHandlers;
+  // req.log of the upgrade request
+  [LOG]: Logger;
+}
+
+export function isWebSocketUpgrade(headers: Headers): boolean {
+  return headers.get('Upgrade')?.toLowerCase() === 'websocket';
+}
+
+// Final handler of a ws() route: hand the connection over to Bun
+export function upgradeHandler(handlers: WebSocketHandlers, getServer: () => Server<unknown> | null): Handler {
+  return (req, res) => {
+    const server = getServer() as Server<SocketData> | null;
+    if (!server) {
+      throw new HalinError(500, 'WebSocket upgrades need a server; use listen() or pass app.websocket to Bun.serve');
+    }
+
+    const data: SocketData = {
+      params: req.params,
+      query: req.query,
+      path: req.path,
+      state: req.state,
+      [HANDLERS]: handlers,
+      [LOG]: req.log
+    };
+    // Headers set by middleware (e.g. cookies) go out with the 101 response
+    if (!server.upgrade(req.raw, { data, headers: res.headers })) {
+      throw new HalinError(400, 'Bad Request: expected a WebSocket upgrade');
+    }
+    res.status(101);
+  };
+}
+
+// Errors thrown by socket handlers close the connection instead of crashing
+async function run(ws: ServerWebSocket<SocketData>, handler: () => void | Promise<void>): Promise<void> {
+  try {
+    await handler();
+  } catch (err) {
+    ws.data[LOG].error('WebSocket Error', { err });
+    ws.close(1011, 'Internal Error');
+  }
+}
+
+// sockets tracks the open connections, so the app can close them on shutdown
+export function createWebSocketHandler(sockets: Set<ServerWebSocket<any>>): WebSocketHandler<SocketData> {
+  return {
+    open(ws) {
+      sockets.add(ws);
+      const { open } = ws.data[HANDLERS];
+      if (open) return run(ws, () => open(ws));
+    },
+    message(ws, message) {
+      const handler = ws.data[HANDLERS].message;
+      if (handler) return run(ws, () => handler(ws, message));
+    },
+    close(ws, code, reason) {
+      sockets.delete(ws);
+      const { close } = ws.data[HANDLERS];
+      if (close) return run(ws, () => close(ws, code, reason));
+    },
+    drain(ws) {
+      const { drain } = ws.data[HANDLERS];
+      if (drain) return run(ws, () => drain(ws));
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { Router } from '../../src/router';
+import { describe, expect, test } from 'bun:test';
+
+// The matcher Halin used before the radix tree: a regex per route, scanned in order
+class LinearRouter<T> {
+  private routes: { method: string; path: string; pattern: RegExp; value: T }[] = [];
+
+  add(method: string, path: string, value: T): void {
+    const pattern = path
+      .replace(/\/:([^/]+)/g, '/([^/]+)')
+      .replace(/\*/g, '.*');
+    this.routes.push({ method, path, pattern: new RegExp(`^${pattern}$`), value });
+  }
+
+  find(method: string, path: string): { value: T; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = path.match(route.pattern);
+      if (!match) continue;
+      const params: Record<string, string> = {};
+      const paramNames = route.path.match(/:[^/]+/g) || [];
+      paramNames.forEach((param, index) => {
+        params[param.slice(1)] = match[index + 1];
+      });
+      return { value: route.value, params };
+    }
+    return null;
+  }
+}
+
+function time(fn: () => void, iterations: number): number {
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) fn();
+  return performance.now() - start;
+}
+
+// 100 resources with five routes each, registered in both matchers
+function createRouters(): { linear: LinearRouter<number>; radix: Router<number> } {
+  const linear = new LinearRouter<number>();
+  const radix = new Router<number>();
+
+  for (let i = 0; i < 100; i++) {
+    const paths = [
+      `/api/resource${i}`,
+      `/api/resource${i}/search`,
+      `/api/resource${i}/:id`,
+      `/api/resource${i}/:id/items`,
+      `/api/resource${i}/:id/items/:itemId`
+    ];
+    paths.forEach((path, j) => {
+      linear.add('GET', path, i * 5 + j);
+      radix.add('GET', path, i * 5 + j);
+    });
+  }
+  return { linear, radix };
+}
+
+const requests = [
+  '/api/resource0',
+  '/api/resource50/123',
+  '/api/resource99/123/items/456',
+  '/api/resource75/search',
+  '/api/missing'
+];
+
+describe('Router benchmark', () => {
+  test('radix router agrees with the linear regex scan', () => {
+    const { linear, radix } = createRouters();
+
+    // Static routes are registered first so the linear scan gives them the
+    // same priority as the radix tree
+    for (const path of requests) {
+      expect(radix.find('GET', path)).toEqual(linear.find('GET', path));
+    }
+  });
+
+  // Wall-clock timings are too noisy for the default test run; `bun run
+  // test:bench` sets BENCH
+  test.skipIf(!process.env.BENCH)('radix router vs linear regex scan with 500 routes', () => {
+    const { linear, radix } = createRouters();
+    const iterations = 2000;
+    const lookup = (router: { find: (method: string, path: string) => unknown }) => () => {
+      for (const path of requests) router.find('GET', path);
+    };
+
+    const linearTime = time(lookup(linear), iterations);
+    const radixTime = time(lookup(radix), iterations);
+
+    console.log(
+      `Router benchmark (${requests.length * iterations} lookups, 500 routes): ` +
+      `linear ${linearTime.toFixed(1)}ms, radix ${radixTime.toFixed(1)}ms ` +
+      `(${(linearTime / radixTime).toFixed(1)}x)`
+    );
+
+    expect(radixTime).toBeLessThan(linearTime);
+  });
+});
@@ -0,0 +1,87 @@
+import { Halin, HalinError } from "../../src/halin";
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+
+describe("Halin listen()", () => {
+  const baseUrl = "http://localhost:3002";
+  const app = new Halin();
+  let server: any;
+
+  beforeAll(() => {
+    app.get("/users/:id", (req, res) => {
+      res.json({ id: req.params.id, query: req.query });
+    });
+    app.post("/echo", (req, res) => {
+      res.status(201).json({ body: req.body });
+    });
+    app.get("/teapot", () => {
+      throw new HalinError(418, "I'm a teapot");
+    });
+    server = app.listen(3002);
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should serve the same responses as app.fetch", async () => {
+    for (const path of ["/users/7?x=1", "/teapot", "/missing"]) {
+      const served = await fetch(`${baseUrl}${path}`);
+      const direct = await app.fetch(new Request(`http://localhost${path}`));
+
+      expect(served.status).toBe(direct.status);
+      expect(await served.json()).toEqual(await direct.json());
+    }
+  });
+
+  test("should parse JSON bodies", async () => {
+    const response = await fetch(`${baseUrl}/echo`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Halin" })
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ body: { name: "Halin" } });
+  });
+});
+
+describe("Halin hooks with listen()", () => {
+  test("should run hooks in the same order as app.handle()", async () => {
+    const app = new Halin();
+    const events: string[] = [];
+    app.onRequest(() => {
+      events.push("onRequest");
+    });
+    app.preHandler(() => {
+      events.push("preHandler");
+    });
+    app.onSend((req, res) => {
+      events.push("onSend");
+      res.header("X-Hooked", "yes");
+    });
+    app.onResponse(() => {
+      events.push("onResponse");
+    });
+    app.get("/", (req, res) => {
+      events.push("handler");
+      res.text("ok");
+    });
+    const server = app.listen(0);
+
+    try {
+      const served = await fetch(`http://localhost:${server.port}/`);
+      expect(served.headers.get("X-Hooked")).toBe("yes");
+      expect(await served.text()).toBe("ok");
+      await new Promise(resolve => setImmediate(resolve));
+      const viaListen = events.splice(0);
+
+      await app.handle(new Request("http://localhost/"));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(viaListen).toEqual(["onRequest", "preHandler", "handler", "onSend", "onResponse"]);
+      expect(events).toEqual(viaListen);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
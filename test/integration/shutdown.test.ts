@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import { quietApp } from "../utils";
+
+// Read an event stream until it ends
+async function readStream(response: Response): Promise<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+describe("Halin close()", () => {
+  test("runs lifecycle callbacks and reports readiness", async () => {
+    const app = quietApp();
+    const events: string[] = [];
+    app.onListen(server => {
+      events.push(`listen ${server.port! > 0}`);
+    });
+    app.onClose(async () => {
+      await Bun.sleep(5);
+      events.push("close");
+    });
+
+    expect(app.ready).toBe(false);
+    app.listen(0);
+    expect(app.ready).toBe(true);
+
+    const closing = app.close();
+    expect(app.ready).toBe(false);
+    expect(app.close()).toBe(closing);
+    await closing;
+    expect(events).toEqual(["listen true", "close"]);
+  });
+
+  test("lets in-flight requests finish and refuses new ones", async () => {
+    const app = quietApp();
+    app.get("/slow", async (req, res) => {
+      await Bun.sleep(150);
+      res.text("done");
+    });
+    const server = app.listen(0);
+    const url = `http://localhost:${server.port}`;
+
+    const pending = fetch(`${url}/slow`);
+    await Bun.sleep(30);
+    const closing = app.close();
+
+    // Requests that still reach the app are turned away
+    const late = await app.handle(new Request(`${url}/slow`));
+    expect(late.status).toBe(503);
+    expect(late.headers.get("Connection")).toBe("close");
+
+    const response = await pending;
+    expect(await response.text()).toBe("done");
+    await closing;
+    await expect(fetch(`${url}/slow`)).rejects.toThrow();
+  });
+
+  test("cuts requests that outlive the timeout", async () => {
+    const app = quietApp();
+    app.get("/hang", async (req, res) => {
+      await Bun.sleep(1000);
+      res.text("late");
+    });
+    const server = app.listen(0);
+
+    const pending = fetch(`http://localhost:${server.port}/hang`).then(() => "answered", () => "cut");
+    await Bun.sleep(30);
+    const started = performance.now();
+    await app.close({ timeout: 50 });
+
+    expect(performance.now() - started).toBeLessThan(500);
+    expect(await pending).toBe("cut");
+  });
+
+  test("ends event streams and WebSockets with a final message", async () => {
+    const app = quietApp();
+    app.get("/events", (req, res) => {
+      res.sse().send("hello");
+    });
+    app.ws("/socket", {});
+    const server = app.listen(0);
+
+    const stream = await fetch(`http://localhost:${server.port}/events`);
+    const socket = new WebSocket(`ws://localhost:${server.port}/socket`);
+    await new Promise(resolve => (socket.onopen = resolve));
+    const closed = new Promise<CloseEvent>(resolve => (socket.onclose = resolve));
+
+    await app.close({ reason: "deploy" });
+
+    expect(await readStream(stream)).toBe("data: hello\n\nevent: shutdown\ndata: deploy\n\n");
+    const event = await closed;
+    expect(event.code).toBe(1001);
+    expect(event.reason).toBe("deploy");
+  });
+
+  test("wires and unwires signal handlers", async () => {
+    const app = quietApp();
+    const before = process.listenerCount("SIGTERM");
+    app.closeOnSignals(["SIGTERM"]);
+    expect(process.listenerCount("SIGTERM")).toBe(before + 1);
+
+    await app.close();
+    expect(process.listenerCount("SIGTERM")).toBe(before);
+  });
+});
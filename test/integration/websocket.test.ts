@@ -0,0 +1,189 @@
+import { Halin, HalinError, type Handler } from "../../src/halin";
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { quietApp } from "../utils";
+
+// Open a socket and collect the messages it receives
+function connect(url: string, headers: Record<string, string> = {}) {
+  const socket = new WebSocket(url, { headers } as any);
+  const messages: string[] = [];
+  const waiters: (() => void)[] = [];
+  socket.onmessage = event => {
+    messages.push(String(event.data));
+    waiters.splice(0).forEach(resolve => resolve());
+  };
+
+  return {
+    socket,
+    messages,
+    opened: new Promise<void>((resolve, reject) => {
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new Error("WebSocket failed to open"));
+    }),
+    closed: new Promise<CloseEvent>(resolve => {
+      socket.onclose = event => resolve(event);
+    }),
+    async next(count = 1): Promise<string[]> {
+      while (messages.length < count) {
+        await new Promise<void>(resolve => waiters.push(resolve));
+      }
+      return messages.splice(0, count);
+    }
+  };
+}
+
+describe("Halin ws()", () => {
+  const app = quietApp();
+  let server: any;
+  let wsUrl: string;
+
+  beforeAll(() => {
+    const identify: Handler = async (req, res, next) => {
+      req.state.user = req.query.user ?? "guest";
+      await next?.();
+    };
+    app.use(identify);
+
+    app.ws("/echo/:room", {
+      open(ws) {
+        ws.send(`welcome ${ws.data.state.user} to ${ws.data.params.room}`);
+      },
+      message(ws, message) {
+        ws.send(`echo ${message}`);
+      }
+    });
+
+    app.ws("/private", (req, res, next) => {
+      if (req.headers.get("Authorization") !== "Bearer secret") {
+        throw new HalinError(401, "Unauthorized");
+      }
+      return next?.();
+    }, {
+      open(ws) {
+        ws.send("authorized");
+      }
+    });
+
+    app.ws("/chat/:topic", {
+      open(ws) {
+        ws.subscribe(ws.data.params.topic);
+        ws.send("subscribed");
+      },
+      message(ws, message) {
+        ws.publish(ws.data.params.topic, String(message));
+      }
+    });
+
+    app.ws("/broken", {
+      message() {
+        throw new Error("handler failed");
+      }
+    });
+
+    app.get("/both", (req, res) => {
+      res.text("plain");
+    });
+    app.ws("/both", {
+      open(ws) {
+        ws.send("socket");
+      }
+    });
+
+    app.group("/api/:version").use((req, res, next) => {
+      req.state.version = req.params.version;
+      return next?.();
+    }).routes(api => {
+      api.ws("/live/:id", {
+        open(ws) {
+          ws.send(`${ws.data.state.version}:${ws.data.params.id}:${ws.data.query.mode}`);
+        }
+      });
+    });
+
+    server = app.listen(0);
+    wsUrl = `ws://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("runs middleware before the upgrade and exposes params and state", async () => {
+    const client = connect(`${wsUrl}/echo/lobby?user=ada`);
+    expect(await client.next()).toEqual(["welcome ada to lobby"]);
+
+    client.socket.send("hello");
+    expect(await client.next()).toEqual(["echo hello"]);
+    client.socket.close();
+  });
+
+  test("rejects upgrades when middleware throws", async () => {
+    const denied = await fetch(`http://localhost:${server.port}/private`, {
+      headers: { Upgrade: "websocket", Connection: "Upgrade" }
+    });
+    expect(denied.status).toBe(401);
+
+    const client = connect(`${wsUrl}/private`, { Authorization: "Bearer secret" });
+    expect(await client.next()).toEqual(["authorized"]);
+    client.socket.close();
+  });
+
+  test("supports ws() routes inside groups", async () => {
+    const client = connect(`${wsUrl}/api/v2/live/42?mode=full`);
+    expect(await client.next()).toEqual(["v2:42:full"]);
+    client.socket.close();
+  });
+
+  test("publishes to subscribed sockets", async () => {
+    const first = connect(`${wsUrl}/chat/news`);
+    const second = connect(`${wsUrl}/chat/news`);
+    await first.next();
+    await second.next();
+    expect(app.subscriberCount("news")).toBe(2);
+
+    first.socket.send("from first");
+    expect(await second.next()).toEqual(["from first"]);
+
+    app.publish("news", "from server");
+    expect(await first.next()).toEqual(["from server"]);
+    expect(await second.next()).toEqual(["from server"]);
+
+    first.socket.close();
+    second.socket.close();
+  });
+
+  test("closes the socket when a handler throws", async () => {
+    const client = connect(`${wsUrl}/broken`);
+    await client.opened;
+    client.socket.send("boom");
+    const event = await client.closed;
+    expect(event.code).toBe(1011);
+  });
+
+  test("answers plain HTTP requests to socket routes", async () => {
+    const upgradeOnly = await fetch(`http://localhost:${server.port}/echo/lobby`);
+    expect(upgradeOnly.status).toBe(426);
+    expect(upgradeOnly.headers.get("Upgrade")).toBe("websocket");
+
+    const shared = await fetch(`http://localhost:${server.port}/both`);
+    expect(await shared.text()).toBe("plain");
+
+    const client = connect(`${wsUrl}/both`);
+    expect(await client.next()).toEqual(["socket"]);
+    client.socket.close();
+
+    const options = await fetch(`http://localhost:${server.port}/both`, { method: "OPTIONS" });
+    expect(options.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+  });
+});
+
+describe("Halin ws() without a server", () => {
+  test("fails upgrades made through handle()", async () => {
+    const app = quietApp();
+    app.ws("/socket", {});
+    const response = await app.handle(new Request("http://localhost/socket", {
+      headers: { Upgrade: "websocket", Connection: "Upgrade" }
+    }));
+    expect(response.status).toBe(500);
+    expect(app.publish("topic", "message")).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { Halin, HalinError } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+
+function post(path: string, body: BodyInit, contentType = 'application/json'): Request {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body
+  });
+}
+
+// A body stream that records whether anything pulled from it
+function trackedBody(text: string): { stream: ReadableStream<Uint8Array>; wasRead: () => boolean } {
+  let read = false;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      read = true;
+      controller.enqueue(new TextEncoder().encode(text));
+      controller.close();
+    }
+  }, { highWaterMark: 0 });
+  return { stream, wasRead: () => read };
+}
+
+describe('Body parsing', () => {
+  test('should not read the body when global middleware rejects the request', async () => {
+    const app = new Halin();
+    app.use(() => {
+      throw new HalinError(401, 'Unauthorized');
+    });
+    app.post('/items', (req, res) => {
+      res.json(req.body);
+    });
+
+    const body = trackedBody('{"big":"payload"}');
+    const response = await app.handle(post('/items', body.stream));
+    expect(response.status).toBe(401);
+    expect(body.wasRead()).toBe(false);
+  });
+
+  test('should cache the body across readers', async () => {
+    const app = new Halin({ parseBody: false });
+    app.post('/items', async (req, res) => {
+      const json = await req.json();
+      const text = await req.text();
+      const buffer = await req.arrayBuffer();
+      res.json({ json, text, bytes: buffer.byteLength, body: req.body });
+    });
+
+    const response = await app.handle(post('/items', '{"a":1}'));
+    expect(await response.json()).toEqual({ json: { a: 1 }, text: '{"a":1}', bytes: 7, body: null });
+  });
+
+  test('should parse on demand with req.parseBody()', async () => {
+    const app = new Halin();
+    app.post('/form', async (req, res) => {
+      res.json({ before: req.body, after: await req.parseBody() });
+    }, { parseBody: false });
+
+    const response = await app.handle(post('/form', 'a=1&b=2', 'application/x-www-form-urlencoded'));
+    expect(await response.json()).toEqual({ before: null, after: { a: '1', b: '2' } });
+  });
+
+  test('should return 413 when Content-Length exceeds the body limit', async () => {
+    const app = new Halin({ bodyLimit: 10 });
+    app.post('/items', (req, res) => {
+      res.json(req.body);
+    });
+
+    const response = await app.handle(post('/items', JSON.stringify({ name: 'too long' })));
+    expect(response.status).toBe(413);
+  });
+
+  test('should return 413 when a streamed body exceeds the body limit', async () => {
+    const app = new Halin({ bodyLimit: 10 });
+    app.post('/items', (req, res) => {
+      res.json(req.body);
+    });
+
+    const body = trackedBody(JSON.stringify({ name: 'too long' }));
+    const response = await app.handle(post('/items', body.stream));
+    expect(response.status).toBe(413);
+  });
+
+  test('route bodyLimit should override the global limit', async () => {
+    const app = new Halin({ bodyLimit: 10 });
+    app.post('/small', (req, res) => {
+      res.json(req.body);
+    });
+    app.post('/large', (req, res) => {
+      res.json(req.body);
+    }, { bodyLimit: 1024 });
+    app.group('/api').routes(api => {
+      api.post('/tiny', (req, res) => {
+        res.json(req.body);
+      }, { bodyLimit: 2 });
+    });
+
+    const payload = JSON.stringify({ name: 'fits in 1 KiB' });
+    expect((await app.handle(post('/small', payload))).status).toBe(413);
+    expect((await app.handle(post('/large', payload))).status).toBe(200);
+    expect((await app.handle(post('/api/tiny', '{"a":1}'))).status).toBe(413);
+  });
+
+  test('should use parsers registered with app.parser()', async () => {
+    const app = new Halin();
+    app.parser('application/xml', async req => {
+      const text = await req.text();
+      return { name: text.match(/<name>(.*)<\/name>/)?.[1] };
+    });
+    app.parser('text/*', async req => (await req.text()).toUpperCase());
+    app.post('/items', (req, res) => {
+      res.json({ body: req.body });
+    });
+
+    let response = await app.handle(post('/items', '<item><name>Halin</name></item>', 'application/xml; charset=utf-8'));
+    expect(await response.json()).toEqual({ body: { name: 'Halin' } });
+
+    response = await app.handle(post('/items', 'shout', 'text/plain'));
+    expect(await response.json()).toEqual({ body: 'SHOUT' });
+  });
+
+  test('parser errors should become 400 responses', async () => {
+    const app = new Halin();
+    app.parser('application/msgpack', () => {
+      throw new Error('bad msgpack');
+    });
+    app.post('/items', (req, res) => {
+      res.json(req.body);
+    });
+
+    const response = await app.handle(post('/items', 'x', 'application/msgpack'));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid request body: bad msgpack' });
+  });
+});
@@ -0,0 +1,149 @@
+import { Halin, compress } from '../../src/halin';
+import { negotiateEncoding } from '../../src/compress';
+import { describe, expect, test } from 'bun:test';
+import { brotliDecompressSync, gunzipSync, gzipSync, inflateSync } from 'node:zlib';
+import { request } from '../utils';
+
+const large = { items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `item ${i}` })) };
+
+function createApp(options: Parameters<typeof compress>[0] = {}): Halin {
+  const app = new Halin();
+  app.use(compress(options));
+  app.get('/large', (req, res) => {
+    res.json(large);
+  });
+  app.get('/small', (req, res) => {
+    res.json({ ok: true });
+  });
+  app.get('/stream', (req, res) => {
+    res.header('Content-Type', 'text/plain');
+    res.stream(new Response('chunk '.repeat(500)).body!);
+  });
+  app.get('/image', (req, res) => {
+    res.header('Content-Type', 'image/png');
+    res.stream(new Response(new Uint8Array(4096)).body!);
+  });
+  return app;
+}
+
+async function bytes(response: Response): Promise<Buffer> {
+  return Buffer.from(await response.arrayBuffer());
+}
+
+describe('compress', () => {
+  test('compresses buffered JSON with the preferred encoding', async () => {
+    const response = await request(createApp(), '/large', { headers: { 'Accept-Encoding': 'gzip, deflate, br' } });
+    expect(response.headers.get('Content-Encoding')).toBe('br');
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(response.headers.get('Vary')).toBe('Accept-Encoding');
+
+    const body = await bytes(response);
+    expect(Number(response.headers.get('Content-Length'))).toBe(body.length);
+    expect(JSON.parse(brotliDecompressSync(body).toString())).toEqual(large);
+  });
+
+  test('respects q-values and the configured encodings', async () => {
+    const gzip = await request(createApp(), '/large', { headers: { 'Accept-Encoding': 'br;q=0.5, gzip' } });
+    expect(gzip.headers.get('Content-Encoding')).toBe('gzip');
+    expect(JSON.parse(gunzipSync(await bytes(gzip)).toString())).toEqual(large);
+
+    const deflate = await request(createApp({ encodings: ['deflate'] }), '/large', { headers: { 'Accept-Encoding': '*' } });
+    expect(deflate.headers.get('Content-Encoding')).toBe('deflate');
+    expect(JSON.parse(inflateSync(await bytes(deflate)).toString())).toEqual(large);
+  });
+
+  test('sends identity when nothing acceptable is offered', async () => {
+    const none = await request(createApp(), '/large');
+    expect(none.headers.get('Content-Encoding')).toBeNull();
+    expect(none.headers.get('Vary')).toBe('Accept-Encoding');
+    expect(await none.json()).toEqual(large);
+
+    const refused = await request(createApp(), '/large', { headers: { 'Accept-Encoding': 'gzip;q=0, identity' } });
+    expect(refused.headers.get('Content-Encoding')).toBeNull();
+  });
+
+  test('skips bodies below the threshold', async () => {
+    const response = await request(createApp(), '/small', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(response.headers.get('Content-Encoding')).toBeNull();
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  test('compresses streaming bodies', async () => {
+    const response = await request(createApp(), '/stream', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+    expect(response.headers.get('Content-Length')).toBeNull();
+    expect(gunzipSync(await bytes(response)).toString()).toBe('chunk '.repeat(500));
+  });
+
+  test('skips content types outside the allowlist', async () => {
+    const image = await request(createApp(), '/image', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(image.headers.get('Content-Encoding')).toBeNull();
+    expect(image.headers.get('Vary')).toBeNull();
+
+    const json = await request(createApp({ types: ['text/*'] }), '/large', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(json.headers.get('Content-Encoding')).toBeNull();
+  });
+
+  test('skips event streams and already encoded bodies', async () => {
+    const app = createApp();
+    app.get('/events', (req, res) => {
+      res.header('Content-Type', 'text/event-stream');
+      res.stream(new Response('data: x\n\n'.repeat(500)).body!);
+    });
+    app.get('/encoded', (req, res) => {
+      res.header('Content-Encoding', 'gzip');
+      res.header('Content-Type', 'text/plain');
+      res.stream(new Response(gzipSync('hello '.repeat(500))).body!);
+    });
+    app.get('/sse', (req, res) => {
+      const sse = res.sse();
+      sse.send('x'.repeat(2000));
+      sse.close();
+    });
+
+    const events = await request(app, '/events', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(events.headers.get('Content-Encoding')).toBeNull();
+
+    const encoded = await request(app, '/encoded', { headers: { 'Accept-Encoding': 'br' } });
+    expect(encoded.headers.get('Content-Encoding')).toBe('gzip');
+    expect(gunzipSync(await bytes(encoded)).toString()).toBe('hello '.repeat(500));
+
+    const sse = await request(app, '/sse', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(sse.headers.get('Content-Encoding')).toBeNull();
+    expect(await sse.text()).toContain('x'.repeat(2000));
+  });
+
+  test('leaves HEAD, 204 and no-transform responses alone', async () => {
+    const app = createApp();
+    app.get('/raw', (req, res) => {
+      res.header('Cache-Control', 'no-transform');
+      res.json(large);
+    });
+
+    const head = await request(app, '/large', { method: 'HEAD', headers: { 'Accept-Encoding': 'gzip' } });
+    expect(head.headers.get('Content-Encoding')).toBeNull();
+
+    const raw = await request(app, '/raw', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(raw.headers.get('Content-Encoding')).toBeNull();
+  });
+
+  test('weakens strong ETags on compressed responses', async () => {
+    const app = createApp();
+    app.get('/tagged', (req, res) => {
+      res.header('ETag', '"v1"');
+      res.json(large);
+    });
+    const response = await request(app, '/tagged', { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(response.headers.get('ETag')).toBe('W/"v1"');
+  });
+});
+
+describe('negotiateEncoding', () => {
+  test('picks the best accepted encoding', () => {
+    expect(negotiateEncoding('gzip, br', ['br', 'gzip'])).toBe('br');
+    expect(negotiateEncoding('gzip;q=1, br;q=0.1', ['br', 'gzip'])).toBe('gzip');
+    expect(negotiateEncoding('*;q=0.5, br;q=0', ['br', 'gzip'])).toBe('gzip');
+    expect(negotiateEncoding('identity', ['br', 'gzip'])).toBeNull();
+    expect(negotiateEncoding(null, ['gzip'])).toBeNull();
+  });
+});
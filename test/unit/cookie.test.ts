@@ -0,0 +1,124 @@
+import { encryptCookie, parseCookies, serializeCookie, signCookie, unsealCookie } from '../../src/cookie';
+import { describe, expect, test } from 'bun:test';
+import { quietApp } from '../utils';
+
+function withCookie(cookie: string): Request {
+  return new Request('http://localhost/', { headers: { Cookie: cookie } });
+}
+
+// "name=value; Path=/; ..." -> "name=value"
+function cookiePair(setCookie: string): string {
+  return setCookie.split(';')[0];
+}
+
+describe('Cookies', () => {
+  test('should parse the Cookie header', () => {
+    expect(parseCookies('a=1; b=hello%20world; c="quoted"; a=2')).toEqual({
+      a: '1',
+      b: 'hello world',
+      c: 'quoted'
+    });
+    expect(parseCookies(null)).toEqual({});
+  });
+
+  test('should serialize every standard attribute', () => {
+    const cookie = serializeCookie('id', 'a b', {
+      domain: 'example.com',
+      path: '/app',
+      expires: new Date(Date.UTC(2030, 0, 1)),
+      maxAge: 3600,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'lax',
+      partitioned: true
+    });
+    expect(cookie).toBe(
+      'id=a%20b; Max-Age=3600; Domain=example.com; Path=/app; ' +
+      'Expires=Tue, 01 Jan 2030 00:00:00 GMT; HttpOnly; Secure; SameSite=Lax; Partitioned'
+    );
+    expect(() => serializeCookie('bad name', 'x')).toThrow();
+  });
+
+  test('should verify signed cookies with rotated secrets', () => {
+    const signed = signCookie('user', '42', ['old']);
+    expect(unsealCookie('user', signed, ['new', 'old'])).toBe('42');
+    expect(unsealCookie('user', signed, ['new'])).toBeNull();
+    expect(unsealCookie('user', signed.replace('42', '43'), ['old'])).toBeNull();
+    expect(unsealCookie('admin', signed, ['old'])).toBeNull();
+  });
+
+  test('should decrypt encrypted cookies with rotated secrets', () => {
+    const encrypted = encryptCookie('token', 'secret value', ['old']);
+    expect(encrypted).not.toContain('secret value');
+    expect(unsealCookie('token', encrypted, ['new', 'old'])).toBe('secret value');
+    expect(unsealCookie('token', encrypted, ['new'])).toBeNull();
+    expect(unsealCookie('other', encrypted, ['old'])).toBeNull();
+  });
+
+  test('req.cookies and res.cookie should round-trip', async () => {
+    const app = quietApp({ cookieSecret: 'secret' });
+    app.get('/', (req, res) => {
+      res.cookie('plain', 'a')
+        .cookie('signed', 'b', { signed: true })
+        .cookie('sealed', 'c', { encrypted: true, httpOnly: true })
+        .json({ cookies: req.cookies, signed: req.signedCookies });
+    });
+
+    const first = await app.handle(new Request('http://localhost/'));
+    const setCookies = first.headers.getSetCookie();
+    expect(setCookies).toHaveLength(3);
+
+    const second = await app.handle(withCookie(setCookies.map(cookiePair).join('; ')));
+    const data = await second.json();
+    expect(data).toEqual({ cookies: { plain: 'a' }, signed: { signed: 'b', sealed: 'c' } });
+  });
+
+  test('tampered cookies should not be trusted', async () => {
+    const app = quietApp({ cookieSecret: ['current', 'previous'] });
+    app.get('/', (req, res) => {
+      res.json({ cookies: req.cookies, signed: req.signedCookies });
+    });
+
+    const valid = signCookie('user', '1', ['previous']);
+    const forged = signCookie('role', 'admin', ['guess']);
+    const response = await app.handle(withCookie(
+      `user=${encodeURIComponent(valid)}; role=${encodeURIComponent(forged)}; theme=dark`
+    ));
+    expect(await response.json()).toEqual({ cookies: { role: forged, theme: 'dark' }, signed: { user: '1' } });
+  });
+
+  test('values that only look signed should stay plain cookies', async () => {
+    const app = quietApp();
+    app.get('/', (req, res) => {
+      res.json({ cookies: req.cookies, signed: req.signedCookies });
+    });
+
+    const response = await app.handle(withCookie('theme=s:dark; mode=e:x; a=b'));
+    expect(await response.json()).toEqual({ cookies: { theme: 's:dark', mode: 'e:x', a: 'b' }, signed: {} });
+  });
+
+  test('clearCookie should expire the cookie and keep other Set-Cookie headers', async () => {
+    const app = quietApp();
+    app.get('/logout', (req, res) => {
+      res.clearCookie('session', { path: '/app' });
+      res.header('Set-Cookie', 'other=1');
+      res.text('bye');
+    });
+
+    const response = await app.handle(new Request('http://localhost/logout'));
+    expect(response.headers.getSetCookie()).toEqual([
+      'session=; Max-Age=0; Path=/app; Expires=Thu, 01 Jan 1970 00:00:00 GMT',
+      'other=1'
+    ]);
+  });
+
+  test('signing without a secret should fail loudly', async () => {
+    const app = quietApp();
+    app.get('/', (req, res) => {
+      res.cookie('user', '1', { signed: true }).text('ok');
+    });
+
+    const response = await app.handle(new Request('http://localhost/'));
+    expect(response.status).toBe(500);
+  });
+});
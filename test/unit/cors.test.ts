@@ -0,0 +1,184 @@
+import { Halin, cors } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+import { quietApp, request } from '../utils';
+
+function preflight(app: Halin, path: string, origin: string, headers: Record<string, string> = {}): Promise<Response> {
+  return request(app, path, {
+    method: 'OPTIONS',
+    headers: { Origin: origin, 'Access-Control-Request-Method': 'POST', ...headers }
+  });
+}
+
+function createApp(options: Parameters<typeof cors>[0] = {}): Halin {
+  const app = quietApp();
+  app.use(cors(options));
+  app.get('/items', (req, res) => {
+    res.json({ ok: true });
+  });
+  app.post('/items', (req, res) => {
+    res.status(201).json({ ok: true });
+  });
+  return app;
+}
+
+describe('cors', () => {
+  test('allows any origin by default', async () => {
+    const response = await request(createApp(), '/items', { headers: { Origin: 'https://a.test' } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Vary')).toBeNull();
+  });
+
+  test('leaves requests without an Origin header alone', async () => {
+    const response = await request(createApp({ origin: 'https://a.test' }), '/items');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(response.headers.get('Vary')).toBe('Origin');
+  });
+
+  test('matches exact, listed and RegExp origins', async () => {
+    const app = createApp({ origin: ['https://a.test', /\.example\.com$/] });
+
+    const listed = await request(app, '/items', { headers: { Origin: 'https://a.test' } });
+    expect(listed.headers.get('Access-Control-Allow-Origin')).toBe('https://a.test');
+    expect(listed.headers.get('Vary')).toBe('Origin');
+
+    const matched = await request(app, '/items', { headers: { Origin: 'https://api.example.com' } });
+    expect(matched.headers.get('Access-Control-Allow-Origin')).toBe('https://api.example.com');
+
+    const rejected = await request(app, '/items', { headers: { Origin: 'https://evil.test' } });
+    expect(rejected.status).toBe(200);
+    expect(rejected.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+
+  test('uses the result of an origin function', async () => {
+    const app = createApp({ origin: async origin => origin.endsWith('.trusted.test') });
+
+    const allowed = await request(app, '/items', { headers: { Origin: 'https://x.trusted.test' } });
+    expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://x.trusted.test');
+
+    const denied = await request(app, '/items', { headers: { Origin: 'https://x.other.test' } });
+    expect(denied.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+
+  test('echoes the origin with credentials instead of *', async () => {
+    const response = await request(createApp({ credentials: true }), '/items', {
+      headers: { Origin: 'https://a.test' }
+    });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://a.test');
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+    expect(response.headers.get('Vary')).toBe('Origin');
+  });
+
+  test('exposes headers on actual requests', async () => {
+    const response = await request(createApp({ exposedHeaders: ['X-Request-Id', 'X-Total'] }), '/items', {
+      headers: { Origin: 'https://a.test' }
+    });
+    expect(response.headers.get('Access-Control-Expose-Headers')).toBe('X-Request-Id, X-Total');
+  });
+
+  test('answers preflight requests without an options() route', async () => {
+    const app = createApp({ maxAge: 600, methods: ['GET', 'POST'] });
+    const response = await preflight(app, '/items', 'https://a.test', {
+      'Access-Control-Request-Headers': 'Content-Type, X-Token'
+    });
+
+    expect(response.status).toBe(204);
+    expect(await response.text()).toBe('');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Token');
+    expect(response.headers.get('Access-Control-Max-Age')).toBe('600');
+    expect(response.headers.get('Vary')).toBe('Access-Control-Request-Headers');
+  });
+
+  test('uses configured allowed headers and success status', async () => {
+    const app = createApp({ allowedHeaders: ['Content-Type'], optionsSuccessStatus: 200 });
+    const response = await preflight(app, '/items', 'https://a.test', {
+      'Access-Control-Request-Headers': 'X-Token'
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type');
+  });
+
+  test('omits allow headers from preflight for rejected origins', async () => {
+    const response = await preflight(createApp({ origin: 'https://a.test' }), '/items', 'https://evil.test');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://a.test');
+
+    const regex = await preflight(createApp({ origin: /^https:\/\/a\.test$/ }), '/items', 'https://evil.test');
+    expect(regex.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(regex.headers.get('Access-Control-Allow-Methods')).toBeNull();
+  });
+
+  test('passes preflight requests on with preflightContinue', async () => {
+    const app = quietApp();
+    app.use(cors({ preflightContinue: true }));
+    app.options('/items', (req, res) => {
+      res.status(200).text('custom');
+    });
+
+    const response = await preflight(app, '/items', 'https://a.test');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('custom');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toContain('POST');
+  });
+
+  test('answers preflight for routes in a group with cors()', async () => {
+    const app = quietApp();
+    app.group('/api').use(cors({ origin: 'https://a.test' })).routes(api => {
+      api.post('/items', (req, res) => {
+        res.status(201).json({ ok: true });
+      });
+    });
+    app.post('/public', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const response = await preflight(app, '/api/items', 'https://a.test');
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://a.test');
+
+    const actual = await request(app, '/api/items', { method: 'POST', headers: { Origin: 'https://a.test' } });
+    expect(actual.status).toBe(201);
+    expect(actual.headers.get('Access-Control-Allow-Origin')).toBe('https://a.test');
+
+    const outside = await preflight(app, '/public', 'https://a.test');
+    expect(outside.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+
+  test('keeps CORS headers on error responses', async () => {
+    const app = createApp();
+    app.get('/fail', () => {
+      throw new Error('boom');
+    });
+    const response = await request(app, '/fail', { headers: { Origin: 'https://a.test' } });
+    expect(response.status).toBe(500);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+
+  test('adds CORS headers to 404 and 405 responses', async () => {
+    const app = createApp();
+    const headers = { Origin: 'https://a.test' };
+
+    const missing = await request(app, '/nowhere', { headers });
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get('Access-Control-Allow-Origin')).toBe('*');
+
+    const wrongMethod = await request(app, '/items', { method: 'DELETE', headers });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS');
+    expect(wrongMethod.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+});
+
+describe('res.vary', () => {
+  test('merges fields without duplicates', async () => {
+    const app = quietApp();
+    app.get('/', (req, res) => {
+      res.vary('Origin').vary('Accept-Encoding').vary('origin');
+      res.text('ok');
+    });
+    const response = await request(app, '/');
+    expect(response.headers.get('Vary')).toBe('Origin, Accept-Encoding');
+  });
+});
@@ -0,0 +1,178 @@
+import { Halin, compress, etag } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+import { request } from '../utils';
+
+describe('etag()', () => {
+  test('adds strong ETags and answers If-None-Match with 304', async () => {
+    const app = new Halin();
+    app.use(etag());
+    app.get('/data', (req, res) => {
+      res.json({ items: [1, 2, 3] });
+    });
+
+    const first = await request(app, '/data');
+    const tag = first.headers.get('ETag')!;
+    expect(tag).toMatch(/^"[0-9a-f]+-[\w-]{27}"$/);
+
+    const again = await request(app, '/data');
+    expect(again.headers.get('ETag')).toBe(tag);
+
+    const cached = await request(app, '/data', { headers: { 'If-None-Match': `"other", W/${tag}` } });
+    expect(cached.status).toBe(304);
+    expect(cached.headers.get('ETag')).toBe(tag);
+    expect(cached.headers.get('Content-Type')).toBeNull();
+    expect(await cached.text()).toBe('');
+
+    const head = await request(app, '/data', { method: 'HEAD', headers: { 'If-None-Match': tag } });
+    expect(head.status).toBe(304);
+
+    const changed = await request(app, '/data', { headers: { 'If-None-Match': '"stale"' } });
+    expect(changed.status).toBe(200);
+  });
+
+  test('generates weak ETags and skips streams and errors', async () => {
+    const app = new Halin();
+    app.use(etag({ weak: true }));
+    app.get('/text', (req, res) => {
+      res.text('hello');
+    });
+    app.get('/stream', (req, res) => {
+      res.stream(new Blob(['hello']).stream());
+    });
+    app.get('/missing', (req, res) => {
+      res.status(404).json({ error: 'missing' });
+    });
+
+    expect((await request(app, '/text')).headers.get('ETag')).toMatch(/^W\/"5-/);
+    expect((await request(app, '/stream')).headers.has('ETag')).toBe(false);
+    expect((await request(app, '/missing')).headers.has('ETag')).toBe(false);
+  });
+
+  test('tags files by size and mtime and skips large Blobs', async () => {
+    const file = Bun.file(import.meta.path);
+    const app = new Halin();
+    app.use(etag({ maxHashSize: 4 }));
+    app.get('/file', (req, res) => {
+      res.body = file;
+    });
+    app.get('/small', (req, res) => {
+      res.body = new Blob(['tiny']);
+    });
+    app.get('/large', (req, res) => {
+      res.body = new Blob(['too large']);
+    });
+
+    const tag = `W/"${file.size.toString(16)}-${file.lastModified.toString(16)}"`;
+    expect((await request(app, '/file')).headers.get('ETag')).toBe(tag);
+    expect((await request(app, '/file', { headers: { 'If-None-Match': tag } })).status).toBe(304);
+    expect((await request(app, '/small')).headers.get('ETag')).toMatch(/^"4-/);
+    expect((await request(app, '/large')).headers.has('ETag')).toBe(false);
+  });
+
+  test('keeps ETag and Last-Modified set by handlers', async () => {
+    const app = new Halin();
+    const updated = new Date('2024-05-01T12:00:00Z');
+    app.use(etag());
+    app.get('/item', (req, res) => {
+      res.header('ETag', '"v7"').header('Last-Modified', updated.toUTCString()).json({ version: 7 });
+    });
+
+    const response = await request(app, '/item');
+    expect(response.headers.get('ETag')).toBe('"v7"');
+
+    const notModified = await request(app, '/item', { headers: { 'If-Modified-Since': updated.toUTCString() } });
+    expect(notModified.status).toBe(304);
+    const modified = await request(app, '/item', { headers: { 'If-Modified-Since': new Date('2024-04-01').toUTCString() } });
+    expect(modified.status).toBe(200);
+    // If-None-Match takes precedence over If-Modified-Since
+    const mismatch = await request(app, '/item', {
+      headers: { 'If-None-Match': '"v6"', 'If-Modified-Since': updated.toUTCString() }
+    });
+    expect(mismatch.status).toBe(200);
+  });
+
+  test('works under compress()', async () => {
+    const app = new Halin();
+    app.use(compress({ threshold: 0 }), etag());
+    app.get('/data', (req, res) => {
+      res.json({ message: 'x'.repeat(100) });
+    });
+
+    const response = await request(app, '/data', { headers: { 'Accept-Encoding': 'gzip' } });
+    const tag = response.headers.get('ETag')!;
+    expect(tag.startsWith('W/"')).toBe(true);
+
+    const cached = await request(app, '/data', { headers: { 'Accept-Encoding': 'gzip', 'If-None-Match': tag } });
+    expect(cached.status).toBe(304);
+  });
+});
+
+describe('etag() preconditions', () => {
+  function createApp() {
+    const item = { version: 1, name: 'first', updated: new Date('2024-05-01T12:00:00Z') };
+    const app = new Halin();
+    app.put('/item', etag(), async (req, res) => {
+      res.header('ETag', `"v${item.version}"`);
+      res.header('Last-Modified', item.updated.toUTCString());
+      item.version++;
+      item.name = req.body.name;
+      res.json({ version: item.version });
+    });
+    return { app, item };
+  }
+
+  function put(app: Halin, headers: Record<string, string>): Promise<Response> {
+    return request(app, '/item', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ name: 'second' })
+    });
+  }
+
+  test('apply the change when If-Match matches', async () => {
+    const { app, item } = createApp();
+    const response = await put(app, { 'If-Match': '"v1"' });
+    expect(response.status).toBe(200);
+    expect(item.name).toBe('second');
+
+    expect((await put(app, { 'If-Match': '*' })).status).toBe(200);
+    expect((await put(app, {})).status).toBe(200);
+  });
+
+  test('fail with 412 before the change when If-Match differs', async () => {
+    const { app, item } = createApp();
+    const response = await put(app, { 'If-Match': '"v0", W/"v1"' });
+    expect(response.status).toBe(412);
+    expect(await response.json()).toMatchObject({ error: 'Precondition Failed' });
+    expect(item).toMatchObject({ version: 1, name: 'first' });
+  });
+
+  test('check If-Unmodified-Since and If-None-Match', async () => {
+    const { app, item } = createApp();
+    expect((await put(app, { 'If-Unmodified-Since': new Date('2024-04-01').toUTCString() })).status).toBe(412);
+    expect((await put(app, { 'If-None-Match': '*' })).status).toBe(412);
+    expect(item.version).toBe(1);
+
+    expect((await put(app, { 'If-Unmodified-Since': new Date('2024-06-01').toUTCString() })).status).toBe(200);
+    expect(item.version).toBe(2);
+  });
+
+  test('check only the first value of each validator', async () => {
+    const item = { version: 1 };
+    const app = new Halin();
+    app.put('/item', etag(), (req, res) => {
+      res.header('ETag', `"${item.version}"`);
+      item.version++;
+      res.header('ETag', `"${item.version}"`);
+      res.json({ version: item.version });
+    });
+
+    const response = await request(app, '/item', { method: 'PUT', headers: { 'If-Match': '"1"' } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"2"');
+    expect(item.version).toBe(2);
+
+    expect((await request(app, '/item', { method: 'PUT', headers: { 'If-Match': '"1"' } })).status).toBe(412);
+    expect(item.version).toBe(2);
+  });
+});
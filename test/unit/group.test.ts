@@ -0,0 +1,171 @@
+import { Halin, HalinError, type ErrorHandler, type NextFunction, type Request as HalinRequest, type Response as HalinResponse } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+import { request } from '../utils';
+
+const appErrors: ErrorHandler = (err, req, res, next) => {
+  res.status(500).json({ handledBy: 'app', error: err.message });
+};
+
+describe('group error handlers', () => {
+  test('catch errors from group routes before the app handlers', async () => {
+    const app = new Halin();
+    app.use(appErrors);
+    app.group('/api')
+      .use((err: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
+        res.status(400).json({ handledBy: 'api', error: err.message });
+      })
+      .routes(api => {
+        api.get('/fail', () => {
+          throw new Error('api failure');
+        });
+      });
+    app.get('/fail', () => {
+      throw new Error('app failure');
+    });
+
+    const api = await request(app, '/api/fail');
+    expect(api.status).toBe(400);
+    expect(await api.json()).toEqual({ handledBy: 'api', error: 'api failure' });
+
+    expect(await (await request(app, '/fail')).json()).toEqual({ handledBy: 'app', error: 'app failure' });
+  });
+
+  test('fall through to the app handlers with next()', async () => {
+    const app = new Halin();
+    const seen: string[] = [];
+    app.use(appErrors);
+    app.group('/api')
+      .use(async (err: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
+        seen.push(err.message);
+        await next();
+      })
+      .routes(api => {
+        api.get('/fail', () => {
+          throw new Error('passed on');
+        });
+      });
+
+    const response = await request(app, '/api/fail');
+    expect(seen).toEqual(['passed on']);
+    expect(await response.json()).toEqual({ handledBy: 'app', error: 'passed on' });
+  });
+
+  test('catch errors thrown by group middleware', async () => {
+    const app = new Halin();
+    app.group('/admin')
+      .use(() => {
+        throw new HalinError(401, 'Unauthorized');
+      })
+      .use((err: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
+        res.status(401).json({ login: '/login' });
+      })
+      .routes(admin => {
+        admin.get('/', (req, res) => {
+          res.text('secret');
+        });
+      });
+
+    const response = await request(app, '/admin/');
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ login: '/login' });
+  });
+
+  test('run innermost group handlers first in nested groups', async () => {
+    const app = new Halin();
+    const order: string[] = [];
+    app.group('/api')
+      .use(async (err: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
+        order.push('outer');
+        res.status(500).json({ handledBy: 'outer' });
+      })
+      .routes(api => {
+        api.get('/fail', () => {
+          throw new Error('outer route');
+        });
+        api.group('/v1')
+          .use(async (err: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
+            order.push('inner');
+            await next();
+          })
+          .routes(v1 => {
+            v1.get('/fail', () => {
+              throw new Error('inner route');
+            });
+          });
+      });
+
+    expect(await (await request(app, '/api/v1/fail')).json()).toEqual({ handledBy: 'outer' });
+    expect(order).toEqual(['inner', 'outer']);
+
+    order.length = 0;
+    await request(app, '/api/fail');
+    expect(order).toEqual(['outer']);
+  });
+
+  test('do not see errors from unknown paths', async () => {
+    const app = new Halin();
+    let called = false;
+    app.group('/api')
+      .use((err: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
+        called = true;
+        return next();
+      })
+      .routes(api => {
+        api.get('/known', (req, res) => {
+          res.text('ok');
+        });
+      });
+
+    expect((await request(app, '/api/unknown')).status).toBe(404);
+    expect(called).toBe(false);
+  });
+});
+
+describe('group route methods', () => {
+  test('support options, head, all and on', async () => {
+    const app = new Halin();
+    app.group('/api').routes(api => {
+      api.options('/items', (req, res) => {
+        res.status(200).header('X-Custom', 'options');
+      });
+      api.head('/items', (req, res) => {
+        res.header('X-Count', '3');
+      });
+      api.get('/items', (req, res) => {
+        res.json([1, 2, 3]);
+      });
+      api.all('/any/:id', (req, res) => {
+        res.json({ method: req.method, id: req.params.id });
+      });
+      api.on('purge', '/cache', (req, res) => {
+        res.text('purged');
+      });
+    });
+
+    const options = await request(app, '/api/items', { method: 'OPTIONS' });
+    expect(options.headers.get('X-Custom')).toBe('options');
+
+    const head = await request(app, '/api/items', { method: 'HEAD' });
+    expect(head.headers.get('X-Count')).toBe('3');
+
+    for (const method of ['GET', 'POST', 'DELETE']) {
+      const response = await request(app, '/api/any/9', { method });
+      expect(await response.json()).toEqual({ method, id: '9' });
+    }
+
+    expect(await (await request(app, '/api/cache', { method: 'PURGE' })).text()).toBe('purged');
+  });
+
+  test('all() on the app yields to method-specific routes', async () => {
+    const app = new Halin();
+    app.get('/thing', (req, res) => {
+      res.text('get');
+    });
+    app.all('/thing', (req, res) => {
+      res.text(`all ${req.method}`);
+    });
+
+    expect(await (await request(app, '/thing')).text()).toBe('get');
+    expect(await (await request(app, '/thing', { method: 'PUT' })).text()).toBe('all PUT');
+  });
+});
@@ -0,0 +1,241 @@
+import { Halin, HalinError, Logger, type Handler } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+import { quietApp, request } from '../utils';
+
+// onResponse hooks run after the response has been handed over
+function afterResponse(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('lifecycle hooks', () => {
+  test('run in the documented order around middleware and handlers', async () => {
+    const app = quietApp();
+    const events: string[] = [];
+    const record = (name: string) => () => {
+      events.push(name);
+    };
+    const middleware = (name: string): Handler => async (req, res, next) => {
+      events.push(name);
+      await next?.();
+    };
+
+    app.onRequest(req => {
+      events.push(`app onRequest params=${JSON.stringify(req.params)}`);
+    });
+    app.preHandler(req => {
+      events.push(`app preHandler body=${JSON.stringify(req.body)}`);
+    });
+    app.onSend(record('app onSend'));
+    app.onResponse(record('app onResponse'));
+    app.use(middleware('app middleware'));
+
+    app.group('/items/:id')
+      .use(middleware('group middleware'))
+      .onRequest(req => {
+        events.push(`group onRequest id=${req.params.id}`);
+      })
+      .preHandler(record('group preHandler'))
+      .onSend(record('group onSend'))
+      .onResponse(record('group onResponse'))
+      .routes(group => {
+        group.post('', (req, res) => {
+          events.push('handler');
+          res.json({ ok: true });
+        });
+      });
+
+    const response = await request(app, '/items/7', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'box' })
+    });
+    expect(response.status).toBe(200);
+    await afterResponse();
+
+    expect(events).toEqual([
+      'app onRequest params={}',
+      'group onRequest id=7',
+      'app middleware',
+      'group middleware',
+      'app preHandler body={"name":"box"}',
+      'group preHandler',
+      'handler',
+      'app onSend',
+      'group onSend',
+      'app onResponse',
+      'group onResponse'
+    ]);
+  });
+
+  test('onSend can rewrite status, headers and body, including error responses', async () => {
+    const app = quietApp();
+    app.onSend((req, res) => {
+      res.header('X-Powered-By', 'Halin');
+      if (res.statusCode === 404) {
+        res.status(410).json({ gone: req.path });
+      }
+    });
+    app.get('/data', (req, res) => {
+      res.json({ value: 1 });
+    });
+
+    const ok = await request(app, '/data');
+    expect(ok.headers.get('X-Powered-By')).toBe('Halin');
+    expect(await ok.json()).toEqual({ value: 1 });
+
+    const missing = await request(app, '/missing');
+    expect(missing.status).toBe(410);
+    expect(missing.headers.get('X-Powered-By')).toBe('Halin');
+    const body = await missing.text();
+    expect(JSON.parse(body)).toEqual({ gone: '/missing' });
+    // The 404's Content-Length must not be kept for the new body
+    expect([null, String(Buffer.byteLength(body))]).toContain(missing.headers.get('Content-Length'));
+  });
+
+  test('onSend errors become error responses and reach onError hooks', async () => {
+    const app = quietApp();
+    const seen: string[] = [];
+    app.onError(err => {
+      seen.push(err.message);
+    });
+    app.onSend(() => {
+      throw new HalinError(502, 'Bad upstream');
+    });
+    app.get('/', (req, res) => {
+      res.text('fine');
+    });
+
+    const response = await request(app, '/');
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Bad upstream' });
+    expect(seen).toEqual(['Bad upstream']);
+  });
+
+  test('onError observes errors before the error handlers run', async () => {
+    const app = quietApp();
+    const events: string[] = [];
+    app.onError((err, req) => {
+      events.push(`app onError ${err.message} ${req.path}`);
+    });
+    app.onError(() => {
+      throw new Error('broken reporter');
+    });
+    app.use((err: Error, req: any, res: any, next: any) => {
+      events.push('error handler');
+      res.status(400).json({ handled: err.message });
+    });
+    app.group('/api')
+      .onError(err => {
+        events.push(`group onError ${err.message}`);
+      })
+      .routes(api => {
+        api.get('/fail', () => {
+          throw new Error('boom');
+        });
+      });
+
+    const response = await request(app, '/api/fail');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ handled: 'boom' });
+    expect(events).toEqual(['app onError boom /api/fail', 'group onError boom', 'error handler']);
+  });
+
+  test('onRequest runs before routing and can reject requests', async () => {
+    const app = quietApp();
+    const errors: number[] = [];
+    app.onError(err => {
+      errors.push((err as HalinError).statusCode);
+    });
+    app.onRequest(req => {
+      if (!req.headers.has('Authorization')) {
+        throw new HalinError(401, 'Unauthorized');
+      }
+    });
+    app.get('/private', (req, res) => {
+      res.text('secret');
+    });
+
+    expect((await request(app, '/private')).status).toBe(401);
+    expect((await request(app, '/nowhere')).status).toBe(401);
+    expect((await request(app, '/private', { headers: { Authorization: 'Bearer x' } })).status).toBe(200);
+    expect(errors).toEqual([401, 401]);
+  });
+
+  test('group hooks apply to the group and its nested groups only', async () => {
+    const app = quietApp();
+    const tag = (value: string) => (req: any, res: any) => {
+      res.header('X-Groups', [res.headers.get('X-Groups'), value].filter(Boolean).join(','));
+    };
+
+    app.group('/api')
+      .onSend(tag('api'))
+      .routes(api => {
+        api.get('/a', (req, res) => {
+          res.text('a');
+        });
+        api.group('/v1')
+          .onSend(tag('v1'))
+          .routes(v1 => {
+            v1.get('/b', (req, res) => {
+              res.text('b');
+            });
+          });
+      });
+    app.get('/c', (req, res) => {
+      res.text('c');
+    });
+
+    expect((await request(app, '/api/a')).headers.get('X-Groups')).toBe('api');
+    expect((await request(app, '/api/v1/b')).headers.get('X-Groups')).toBe('api,v1');
+    expect((await request(app, '/c')).headers.get('X-Groups')).toBeNull();
+  });
+
+  test('onResponse sees the final response and its errors are only logged', async () => {
+    const lines: string[] = [];
+    const app = new Halin({ logger: new Logger({ format: 'json', write: line => lines.push(line) }) });
+    const statuses: number[] = [];
+    app.onResponse((req, res) => {
+      statuses.push(res.statusCode);
+    });
+    app.onResponse(() => {
+      throw new Error('metrics down');
+    });
+    app.get('/', (req, res) => {
+      res.text('ok');
+    });
+
+    expect((await request(app, '/')).status).toBe(200);
+    expect((await request(app, '/missing')).status).toBe(404);
+    await afterResponse();
+
+    expect(statuses).toEqual([200, 404]);
+    const logged = lines.map(line => JSON.parse(line)).filter(record => record.msg === 'onResponse Error');
+    expect(logged).toHaveLength(2);
+    expect(logged[0].err.message).toBe('metrics down');
+  });
+
+  test('mounted apps run their own hooks after the parent app\'s', async () => {
+    const app = quietApp();
+    const admin = quietApp();
+    const events: string[] = [];
+    app.onRequest(() => {
+      events.push('app onRequest');
+    });
+    app.onSend(() => {
+      events.push('app onSend');
+    });
+    admin.onRequest(req => {
+      events.push(`admin onRequest ${req.path}`);
+    });
+    admin.onSend(() => {
+      events.push('admin onSend');
+    });
+    admin.get('/users', (req, res) => {
+      res.json([]);
+    });
+    app.mount('/admin', admin);
+
+    expect((await request(app, '/admin/users')).status).toBe(200);
+    expect(events).toEqual(['app onRequest', 'admin onRequest /users', 'app onSend', 'admin onSend']);
+  });
+});
@@ -0,0 +1,134 @@
+import { Halin, MemoryBackend, SSEHub, type SSEHubBackend } from '../../src/halin';
+import { SSEWriter, type SSEMessage } from '../../src/sse';
+import { describe, expect, test } from 'bun:test';
+
+// Read everything written to a stream so far
+async function drain(sse: SSEWriter): Promise<string> {
+  sse.close();
+  return new Response(sse.body).text();
+}
+
+describe('SSEHub', () => {
+  test('fans published events out to channel subscribers', async () => {
+    const hub = new SSEHub();
+    const news = new SSEWriter();
+    const both = new SSEWriter();
+    const alerts = new SSEWriter();
+    hub.subscribe(news, 'news');
+    hub.subscribe(both, ['news', 'alerts']);
+    hub.subscribe(alerts, 'alerts');
+
+    await hub.publish('news', { event: 'headline', id: 'n1', data: 'Bun 2.0' });
+    await hub.publish('alerts', { data: { level: 'high' }, id: 'a1' });
+
+    expect(await drain(news)).toBe('event: headline\nid: n1\ndata: Bun 2.0\n\n');
+    expect(await drain(both)).toBe('event: headline\nid: n1\ndata: Bun 2.0\n\nid: a1\ndata: {"level":"high"}\n\n');
+    expect(await drain(alerts)).toBe('id: a1\ndata: {"level":"high"}\n\n');
+  });
+
+  test('assigns IDs to events without one', async () => {
+    const hub = new SSEHub();
+    const sse = new SSEWriter();
+    hub.subscribe(sse, 'news');
+
+    const id = await hub.publish('news', 'plain text');
+    expect(await drain(sse)).toBe(`id: ${id}\ndata: plain text\n\n`);
+  });
+
+  test('removes closed streams from their channels', async () => {
+    const hub = new SSEHub();
+    const sse = new SSEWriter();
+    hub.subscribe(sse, ['news', 'alerts']);
+    expect(hub.subscribers('news')).toBe(1);
+
+    sse.close();
+    expect(hub.subscribers('news')).toBe(0);
+    expect(hub.subscribers('alerts')).toBe(0);
+  });
+
+  test('unsubscribes with the returned function', async () => {
+    const hub = new SSEHub();
+    const sse = new SSEWriter();
+    const unsubscribe = hub.subscribe(sse, 'news');
+    unsubscribe();
+
+    await hub.publish('news', 'missed');
+    expect(await drain(sse)).toBe('');
+  });
+
+  test('replays missed events after Last-Event-ID', async () => {
+    const hub = new SSEHub({ replay: 4 });
+    for (const id of ['1', '2', '3', '4']) {
+      await hub.publish(id === '3' ? 'other' : 'news', { id, data: `event ${id}` });
+    }
+
+    const resumed = new SSEWriter('1');
+    hub.subscribe(resumed, 'news');
+    await hub.publish('news', { id: '5', data: 'event 5' });
+    expect(await drain(resumed)).toBe('id: 2\ndata: event 2\n\nid: 4\ndata: event 4\n\nid: 5\ndata: event 5\n\n');
+
+    // ID 1 has been pushed out of the buffer by now
+    const tooOld = new SSEWriter('1');
+    hub.subscribe(tooOld, 'news');
+    expect(await drain(tooOld)).toBe('');
+  });
+
+  test('does not buffer with replay disabled', async () => {
+    const hub = new SSEHub({ replay: 0 });
+    await hub.publish('news', { id: '1', data: 'a' });
+    await hub.publish('news', { id: '2', data: 'b' });
+
+    const sse = new SSEWriter('1');
+    hub.subscribe(sse, 'news');
+    expect(await drain(sse)).toBe('');
+  });
+
+  test('shares events between hubs through a backend', async () => {
+    const published: string[] = [];
+    const memory = new MemoryBackend();
+    const backend: SSEHubBackend = {
+      publish(channel: string, message: SSEMessage) {
+        published.push(channel);
+        return memory.publish(channel, message);
+      },
+      subscribe: listener => memory.subscribe(listener)
+    };
+
+    const first = new SSEHub({ backend });
+    const second = new SSEHub({ backend });
+    const sse = new SSEWriter();
+    second.subscribe(sse, 'news');
+
+    await first.publish('news', { id: 'x', data: 'from first' });
+    expect(published).toEqual(['news']);
+    expect(await drain(sse)).toBe('id: x\ndata: from first\n\n');
+  });
+
+  test('closes every subscribed stream', async () => {
+    const hub = new SSEHub();
+    const sse = new SSEWriter();
+    hub.subscribe(sse, ['news', 'alerts']);
+    hub.close();
+    expect(sse.closed).toBe(true);
+    expect(hub.subscribers('news')).toBe(0);
+  });
+
+  test('works with res.sse() streams', async () => {
+    const hub = new SSEHub();
+    const app = new Halin();
+    app.get('/events/:channel', (req, res) => {
+      hub.subscribe(res.sse(), req.params.channel);
+    });
+
+    const response = await app.handle(new Request('http://localhost/events/news'));
+    const reader = response.body!.getReader();
+    expect(hub.subscribers('news')).toBe(1);
+
+    await hub.publish('news', { id: '1', data: 'hello' });
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toBe('id: 1\ndata: hello\n\n');
+
+    await reader.cancel();
+    expect(hub.subscribers('news')).toBe(0);
+  });
+});
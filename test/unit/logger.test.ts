@@ -0,0 +1,120 @@
+import { HalinError, Halin, Logger, type LoggerOptions } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+
+function capture(options: LoggerOptions = {}): { lines: string[]; records: () => any[]; logger: Logger } {
+  const lines: string[] = [];
+  const logger = new Logger({ format: 'json', ...options, write: line => lines.push(line) });
+  return { lines, records: () => lines.map(line => JSON.parse(line)), logger };
+}
+
+describe('Logger', () => {
+  test('writes JSON records at or above the level', () => {
+    const { records, logger } = capture({ level: 'warn' });
+    logger.info('ignored');
+    logger.warn('disk almost full', { free: 12 });
+    logger.child({ service: 'billing' }).error('charge failed', { attempt: 2 });
+
+    expect(records()).toMatchObject([
+      { level: 'warn', msg: 'disk almost full', free: 12 },
+      { level: 'error', msg: 'charge failed', service: 'billing', attempt: 2 }
+    ]);
+    expect(Date.parse(records()[0].time)).not.toBeNaN();
+    expect(logger.isLevelEnabled('debug')).toBe(false);
+    expect(logger.isLevelEnabled('fatal')).toBe(true);
+  });
+
+  test('redacts sensitive fields and serializes errors and headers', () => {
+    const { records, logger } = capture({ redact: ['authorization', 'password'] });
+    const headers = new Headers({ Authorization: 'Bearer secret', Accept: 'text/html' });
+    logger.info('login', { headers, user: { name: 'ada', Password: 'hunter2' }, err: new HalinError(409, 'Conflict') });
+
+    const [record] = records();
+    expect(record.headers).toEqual({ authorization: '[REDACTED]', accept: 'text/html' });
+    expect(record.user).toEqual({ name: 'ada', Password: '[REDACTED]' });
+    expect(record.err).toMatchObject({ type: 'HalinError', message: 'Conflict', statusCode: 409 });
+    expect(record.err.stack).toContain('HalinError');
+  });
+
+  test('writes pretty lines with indented stacks', () => {
+    const { lines, logger } = capture({ format: 'pretty' });
+    logger.child({ reqId: 'abc' }).error('Request Error', { err: new Error('boom'), path: '/a b' });
+
+    const [head, ...stack] = lines[0].split('\n');
+    expect(head).toMatch(/^\d{4}-\d\d-\d\dT[\d:.]+Z ERROR Request Error reqId=abc err=boom path="\/a b"$/);
+    expect(stack[0]).toMatch(/^    Error: boom/);
+  });
+});
+
+describe('Request logging', () => {
+  test('assigns request IDs and honors X-Request-ID', async () => {
+    const { records, logger } = capture();
+    const app = new Halin({ logger });
+    app.get('/orders/:id', (req, res) => {
+      req.log.info('loading order', { orderId: req.params.id });
+      res.json({ id: req.id });
+    });
+
+    const generated = await app.handle(new Request('http://localhost/orders/7'));
+    const { id } = await generated.json();
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(generated.headers.get('X-Request-ID')).toBe(id);
+    expect(records()[0]).toMatchObject({ msg: 'loading order', reqId: id, method: 'GET', path: '/orders/7', orderId: '7' });
+
+    const given = await app.handle(new Request('http://localhost/orders/7', { headers: { 'X-Request-ID': 'edge-42' } }));
+    expect((await given.json()).id).toBe('edge-42');
+
+    const invalid = await app.handle(new Request('http://localhost/orders/7', { headers: { 'X-Request-ID': 'a b' } }));
+    expect((await invalid.json()).id).not.toBe('a b');
+  });
+
+  test('writes access log lines with status, bytes and duration', async () => {
+    const { records, logger } = capture();
+    const app = new Halin({ logger, accessLog: { headers: true } });
+    app.get('/hello', (req, res) => {
+      res.text('héllo');
+    });
+
+    await app.handle(new Request('http://localhost/hello', { headers: { Cookie: 'sid=secret', 'User-Agent': 'test' } }));
+    await app.handle(new Request('http://localhost/missing'));
+    await app.handle(new Request('http://localhost/hello', { method: 'HEAD' }));
+
+    const [hello, missing, head] = records();
+    expect(hello).toMatchObject({
+      level: 'info',
+      msg: 'request completed',
+      method: 'GET',
+      path: '/hello',
+      status: 200,
+      bytes: 6,
+      ip: null,
+      headers: { cookie: '[REDACTED]', 'user-agent': 'test' }
+    });
+    expect(typeof hello.duration).toBe('number');
+    expect(missing).toMatchObject({ status: 404, bytes: 21 });
+    expect(head).toMatchObject({ method: 'HEAD', status: 200, bytes: 0 });
+  });
+
+  test('logs server errors through the logger', async () => {
+    const { records, logger } = capture();
+    const app = new Halin({ logger });
+    app.get('/fail', () => {
+      throw new Error('database down');
+    });
+    app.get('/conflict', () => {
+      throw new HalinError(409, 'Conflict');
+    });
+
+    const response = await app.handle(new Request('http://localhost/fail'));
+    expect(response.status).toBe(500);
+    await app.handle(new Request('http://localhost/conflict'));
+
+    expect(records()).toHaveLength(1);
+    expect(records()[0]).toMatchObject({
+      level: 'error',
+      msg: 'Request Error',
+      path: '/fail',
+      reqId: response.headers.get('X-Request-ID'),
+      err: { type: 'Error', message: 'database down' }
+    });
+  });
+});
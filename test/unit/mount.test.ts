@@ -0,0 +1,186 @@
+import { Halin, HalinError, type ErrorHandler, type Handler } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+import { request } from '../utils';
+
+function createAdmin(): Halin {
+  const admin = new Halin();
+  const tag: Handler = async (req, res, next) => {
+    res.header('X-Admin', 'yes');
+    await next?.();
+  };
+  admin.use(tag);
+  admin.get('/', (req, res) => {
+    res.json({ page: 'dashboard', path: req.path, baseUrl: req.baseUrl });
+  });
+  admin.get('/users/:id', (req, res) => {
+    res.json({ id: req.params.id, path: req.path, baseUrl: req.baseUrl, url: req.url });
+  });
+  admin.post('/users', (req, res) => {
+    res.status(201).json({ created: req.body });
+  });
+  admin.get('/fail', () => {
+    throw new HalinError(409, 'Conflict in admin');
+  });
+  return admin;
+}
+
+describe('mount', () => {
+  test('routes requests below the prefix to the mounted app', async () => {
+    const app = new Halin();
+    app.mount('/admin', createAdmin());
+
+    const user = await request(app, '/admin/users/7?tab=roles');
+    expect(user.status).toBe(200);
+    expect(user.headers.get('X-Admin')).toBe('yes');
+    expect(await user.json()).toEqual({
+      id: '7',
+      path: '/users/7',
+      baseUrl: '/admin',
+      url: 'http://localhost/admin/users/7?tab=roles'
+    });
+
+    expect(await (await request(app, '/admin')).json()).toEqual({ page: 'dashboard', path: '/', baseUrl: '/admin' });
+    expect(await (await request(app, '/admin/')).json()).toEqual({ page: 'dashboard', path: '/', baseUrl: '/admin' });
+  });
+
+  test('runs app middleware before the mounted app and keeps its own routes', async () => {
+    const app = new Halin();
+    const seen: string[] = [];
+    const log: Handler = async (req, res, next) => {
+      seen.push(req.path);
+      await next?.();
+    };
+    app.use(log);
+    app.get('/admin-status', (req, res) => {
+      res.text('outer');
+    });
+    app.mount('/admin', createAdmin());
+
+    await request(app, '/admin/users/1');
+    expect(seen).toEqual(['/admin/users/1']);
+    expect(await (await request(app, '/admin-status')).text()).toBe('outer');
+    expect((await request(app, '/other')).status).toBe(404);
+  });
+
+  test('parses bodies with the mounted app settings', async () => {
+    const admin = createAdmin();
+    admin.parser('text/plain', req => req.text().then(text => text.toUpperCase()));
+    const app = new Halin();
+    app.mount('/admin', admin);
+
+    const response = await request(app, '/admin/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'ada'
+    });
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ created: 'ADA' });
+  });
+
+  test('answers 404, 405 and OPTIONS from the mounted app', async () => {
+    const app = new Halin();
+    app.mount('/admin', createAdmin());
+
+    expect((await request(app, '/admin/missing')).status).toBe(404);
+
+    const wrongMethod = await request(app, '/admin/users/1', { method: 'DELETE' });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+
+    const head = await request(app, '/admin/users/1', { method: 'HEAD' });
+    expect(head.status).toBe(200);
+    expect(await head.text()).toBe('');
+  });
+
+  test('scopes error handlers to their own app', async () => {
+    const admin = createAdmin();
+    const adminErrors: ErrorHandler = (err, req, res, next) => {
+      res.status(500).json({ handledBy: 'admin', error: err.message });
+    };
+    admin.use(adminErrors);
+
+    const app = new Halin();
+    const appErrors: ErrorHandler = (err, req, res, next) => {
+      res.status(500).json({ handledBy: 'app', path: req.path });
+    };
+    app.use(appErrors);
+    app.get('/boom', () => {
+      throw new Error('outer failure');
+    });
+    app.mount('/admin', admin);
+
+    expect(await (await request(app, '/admin/fail')).json()).toEqual({ handledBy: 'admin', error: 'Conflict in admin' });
+    expect(await (await request(app, '/boom')).json()).toEqual({ handledBy: 'app', path: '/boom' });
+  });
+
+  test('passes errors the mounted app does not handle to the parent', async () => {
+    const app = new Halin();
+    const appErrors: ErrorHandler = (err, req, res, next) => {
+      res.status((err as HalinError).statusCode ?? 500).json({ parent: true, path: req.path, error: err.message });
+    };
+    app.use(appErrors);
+    app.mount('/admin', createAdmin());
+
+    const response = await request(app, '/admin/fail');
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ parent: true, path: '/admin/fail', error: 'Conflict in admin' });
+
+    const plain = new Halin();
+    plain.mount('/admin', createAdmin());
+    const fallback = await request(plain, '/admin/fail');
+    expect(fallback.status).toBe(409);
+    expect(fallback.headers.get('X-Admin')).toBe('yes');
+  });
+
+  test('supports nested mounts', async () => {
+    const reports = new Halin();
+    reports.get('/:year', (req, res) => {
+      res.json({ year: req.params.year, baseUrl: req.baseUrl, path: req.path });
+    });
+    const admin = new Halin();
+    admin.mount('/reports', reports);
+    const app = new Halin();
+    app.mount('/admin/', admin);
+
+    const response = await request(app, '/admin/reports/2024');
+    expect(await response.json()).toEqual({ year: '2024', baseUrl: '/admin/reports', path: '/2024' });
+  });
+
+  test('mounts an app at the root', async () => {
+    const app = new Halin();
+    app.get('/health', (req, res) => {
+      res.text('ok');
+    });
+    app.mount('/', createAdmin());
+
+    expect(await (await request(app, '/health')).text()).toBe('ok');
+    expect((await (await request(app, '/users/3')).json()).baseUrl).toBe('');
+  });
+
+  test('mounts an app below a prefix with params', async () => {
+    const members = new Halin();
+    members.get('/:userId', (req, res) => {
+      res.json({ params: req.params, baseUrl: req.baseUrl, path: req.path });
+    });
+    members.get('/:userId/profile', (req, res) => {
+      res.text(members.url('profile', req.params));
+    }).name('profile');
+    const app = new Halin();
+    app.mount('/orgs/:orgId/members', members);
+
+    const response = await request(app, '/orgs/acme/members/7');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      params: { orgId: 'acme', userId: '7' },
+      baseUrl: '/orgs/acme/members',
+      path: '/7'
+    });
+    expect(await (await request(app, '/orgs/acme/members/7/profile')).text()).toBe('/orgs/acme/members/7/profile');
+    expect((await request(app, '/orgs/acme/members/7/missing')).status).toBe(404);
+  });
+
+  test('rejects wildcards in mount prefixes', () => {
+    const app = new Halin();
+    expect(() => app.mount('/files/*', new Halin())).toThrow('Mount path cannot contain a wildcard');
+  });
+});
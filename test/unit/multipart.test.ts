@@ -0,0 +1,172 @@
+import { Halin } from '../../src/halin';
+import { parseMultipart } from '../../src/multipart';
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+function upload(form: FormData): Request {
+  return new Request('http://localhost/upload', { method: 'POST', body: form });
+}
+
+function uploadForm(): FormData {
+  const form = new FormData();
+  form.append('title', 'Holiday');
+  form.append('photo', new File(['fake image bytes'], 'beach.png', { type: 'image/png' }));
+  form.append('photo', new File(['more bytes'], 'sea.png', { type: 'image/png' }));
+  return form;
+}
+
+// Split a body into tiny chunks so boundaries straddle reads
+function chunked(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += size) {
+        controller.enqueue(bytes.slice(i, i + size));
+      }
+      controller.close();
+    }
+  });
+}
+
+describe('Multipart uploads', () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true })));
+  });
+
+  test('should expose text fields on req.body and files on req.files', async () => {
+    const app = new Halin();
+    app.post('/upload', async (req, res) => {
+      const photos = req.files.photo;
+      res.json({
+        body: req.body,
+        photos: await Promise.all(photos.map(async file => ({
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          text: await file.blob.text()
+        })))
+      });
+    });
+
+    const response = await app.handle(upload(uploadForm()));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      body: { title: 'Holiday' },
+      photos: [
+        { name: 'beach.png', type: 'image/png', size: 16, text: 'fake image bytes' },
+        { name: 'sea.png', type: 'image/png', size: 10, text: 'more bytes' }
+      ]
+    });
+  });
+
+  test('should parse bodies that arrive in small chunks', async () => {
+    const request = upload(uploadForm());
+    const boundary = request.headers.get('Content-Type')!.split('boundary=')[1];
+    const bytes = new Uint8Array(await request.arrayBuffer());
+
+    const result = await parseMultipart(chunked(bytes, 7), boundary);
+    expect(result.fields).toEqual({ title: 'Holiday' });
+    expect(await result.files.photo[1].blob.text()).toBe('more bytes');
+  });
+
+  test('should reject files over maxFileSize with 413', async () => {
+    const app = new Halin({ multipart: { maxFileSize: 12 } });
+    app.post('/upload', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const response = await app.handle(upload(uploadForm()));
+    expect(response.status).toBe(413);
+  });
+
+  test('should reject bodies over maxTotalSize with 413', async () => {
+    const app = new Halin({ multipart: { maxTotalSize: 20 } });
+    app.post('/upload', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const response = await app.handle(upload(uploadForm()));
+    expect(response.status).toBe(413);
+  });
+
+  test('should reject disallowed MIME types with 415', async () => {
+    const app = new Halin({ multipart: { allowedTypes: ['image/jpeg', 'text/*'] } });
+    app.post('/upload', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const response = await app.handle(upload(uploadForm()));
+    expect(response.status).toBe(415);
+  });
+
+  test('should skip unfilled file inputs', async () => {
+    const app = new Halin({ multipart: { allowedTypes: ['image/*'] } });
+    app.post('/upload', (req, res) => {
+      res.json({ body: req.body, files: Object.keys(req.files) });
+    });
+
+    const boundary = 'form-boundary';
+    const body = [
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="title"',
+      '',
+      'Holiday',
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="photo"; filename=""',
+      'Content-Type: application/octet-stream',
+      '',
+      '',
+      `--${boundary}--`,
+      ''
+    ].join('\r\n');
+    const response = await app.handle(new Request('http://localhost/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ body: { title: 'Holiday' }, files: [] });
+  });
+
+  test('should stream large files to uploadDir', async () => {
+    const uploadDir = await mkdtemp(join(tmpdir(), 'halin-upload-'));
+    dirs.push(uploadDir);
+    const app = new Halin({ multipart: { uploadDir, diskThreshold: 1024 } });
+    app.post('/upload', async (req, res) => {
+      const [small] = req.files.small;
+      const [large] = req.files.large;
+      res.json({
+        smallPath: small.path ?? null,
+        largeInDir: large.path?.startsWith(uploadDir),
+        largeSize: (await large.blob.arrayBuffer()).byteLength
+      });
+    });
+
+    const form = new FormData();
+    form.append('small', new File(['tiny'], 'small.txt', { type: 'text/plain' }));
+    form.append('large', new File(['x'.repeat(64 * 1024)], 'large.bin'));
+
+    const response = await app.handle(upload(form));
+    expect(await response.json()).toEqual({ smallPath: null, largeInDir: true, largeSize: 64 * 1024 });
+  });
+
+  test('should remove partially written files when a limit is exceeded', async () => {
+    const uploadDir = await mkdtemp(join(tmpdir(), 'halin-upload-'));
+    dirs.push(uploadDir);
+    const app = new Halin({ multipart: { uploadDir, diskThreshold: 1024, maxFileSize: 8 * 1024 } });
+    app.post('/upload', (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const form = new FormData();
+    form.append('large', new File(['x'.repeat(64 * 1024)], 'large.bin'));
+
+    const response = await app.handle(upload(form));
+    expect(response.status).toBe(413);
+    expect(await readdir(uploadDir)).toEqual([]);
+  });
+});
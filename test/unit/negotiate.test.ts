@@ -0,0 +1,122 @@
+import { Halin, type Request } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+
+async function capture(headers: Record<string, string>): Promise<Request> {
+  const app = new Halin();
+  let captured: Request | undefined;
+  app.get('/', (req, res) => {
+    captured = req;
+  });
+  await app.handle(new Request('http://localhost/', { headers }));
+  return captured!;
+}
+
+describe('req.accepts', () => {
+  test('picks the offered type with the highest q-value', async () => {
+    const req = await capture({ Accept: 'text/html;q=0.8, application/json, */*;q=0.1' });
+    expect(req.accepts('html', 'json')).toBe('json');
+    expect(req.accepts(['text/html', 'text/csv'])).toBe('text/html');
+    expect(req.accepts('image/png')).toBe('image/png');
+    expect(req.accepts()).toEqual(['application/json', 'text/html', '*/*']);
+  });
+
+  test('uses the most specific matching range', async () => {
+    const req = await capture({ Accept: 'text/*;q=0.5, text/csv;q=0, text/html;level=1' });
+    expect(req.accepts('csv')).toBe(false);
+    expect(req.accepts('text/plain', 'text/html')).toBe('text/plain');
+    expect(req.accepts('text/plain', 'text/html;level=1')).toBe('text/html;level=1');
+    expect(req.accepts('json')).toBe(false);
+  });
+
+  test('breaks ties by header order, then offer order', async () => {
+    const req = await capture({ Accept: 'application/json, text/html' });
+    expect(req.accepts('html', 'json')).toBe('json');
+    expect((await capture({})).accepts('csv', 'json')).toBe('csv');
+  });
+
+  test('negotiates languages, encodings and charsets', async () => {
+    const req = await capture({
+      'Accept-Language': 'fr-CH, fr;q=0.9, en;q=0.8, *;q=0.1',
+      'Accept-Encoding': 'br;q=0.9, gzip',
+      'Accept-Charset': 'utf-8, iso-8859-1;q=0'
+    });
+
+    expect(req.acceptsLanguages('en-US', 'fr')).toBe('fr');
+    expect(req.acceptsLanguages('de', 'en-GB')).toBe('en-GB');
+    expect(req.acceptsLanguages()).toEqual(['fr-ch', 'fr', 'en', '*']);
+    expect(req.acceptsEncodings('br', 'gzip')).toBe('gzip');
+    expect(req.acceptsEncodings('deflate', 'identity')).toBe('identity');
+    expect(req.acceptsCharsets('iso-8859-1')).toBe(false);
+    expect(req.acceptsCharsets('ISO-8859-1', 'UTF-8')).toBe('UTF-8');
+
+    const strict = await capture({ 'Accept-Encoding': 'gzip, identity;q=0' });
+    expect(strict.acceptsEncodings('identity')).toBe(false);
+  });
+});
+
+describe('res.format', () => {
+  function createApp(): Halin {
+    const app = new Halin();
+    app.get('/report', async (req, res) => {
+      await res.format({
+        json: () => {
+          res.json({ total: 3 });
+        },
+        html: () => {
+          res.send('<p>3</p>');
+        },
+        'text/csv': () => {
+          res.send('total\n3\n');
+        }
+      });
+    });
+    return app;
+  }
+
+  function get(app: Halin, accept?: string): Promise<globalThis.Response> {
+    return app.handle(new Request('http://localhost/report', { headers: accept ? { Accept: accept } : {} }));
+  }
+
+  test('runs the handler for the preferred type', async () => {
+    const app = createApp();
+
+    const csv = await get(app, 'text/csv, */*;q=0.1');
+    expect(csv.headers.get('Content-Type')).toBe('text/csv');
+    expect(csv.headers.get('Vary')).toBe('Accept');
+    expect(await csv.text()).toBe('total\n3\n');
+
+    const html = await get(app, 'text/html,application/xhtml+xml,*/*;q=0.8');
+    expect(html.headers.get('Content-Type')).toBe('text/html');
+    expect(await html.text()).toBe('<p>3</p>');
+
+    expect(await (await get(app)).json()).toEqual({ total: 3 });
+  });
+
+  test('throws 406 when nothing matches', async () => {
+    const response = await get(createApp(), 'image/png');
+    expect(response.status).toBe(406);
+    expect(response.headers.get('Vary')).toBe('Accept');
+    expect(await response.json()).toMatchObject({
+      error: 'Not Acceptable',
+      details: ['application/json', 'text/html', 'text/csv']
+    });
+  });
+
+  test('falls back to the default handler', async () => {
+    const app = new Halin();
+    app.get('/', async (req, res) => {
+      await res.format({
+        json: () => {
+          res.json({ ok: true });
+        },
+        default: () => {
+          res.text('ok');
+        }
+      });
+    });
+
+    const response = await app.handle(new Request('http://localhost/', { headers: { Accept: 'image/png' } }));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('ok');
+  });
+});
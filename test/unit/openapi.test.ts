@@ -0,0 +1,143 @@
+import { Halin, apiDocs, generateOpenAPI, openapi, s, validate } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+
+function createApp(): Halin {
+  const app = new Halin();
+  const createUser = validate({
+    body: { name: s.string({ min: 1 }), age: s.number({ integer: true, min: 0 }).optional() }
+  });
+
+  app.get('/health', (req, res) => {}, { meta: { hidden: true } });
+  app.group('/api').routes(api => {
+    api.get('/users/:id', validate({
+      params: { id: s.number({ integer: true }) },
+      query: { fields: s.array(s.string()).optional(), active: s.boolean().default(true) }
+    }), (req, res) => {}, {
+      name: 'user.show',
+      meta: {
+        summary: 'Get a user',
+        tags: ['users'],
+        responses: {
+          200: { description: 'The user', body: s.object({ id: s.number(), name: s.string() }) },
+          404: { description: 'No such user' }
+        }
+      }
+    });
+    api.post('/users', createUser, (req, res) => {}, { meta: { deprecated: true } });
+  });
+  app.all('/legacy/*', (req, res) => {});
+  app.ws('/live', {});
+  return app;
+}
+
+describe('Route introspection', () => {
+  test('lists routes with method, path, name, group and metadata', () => {
+    const routes = createApp().routes();
+
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual([
+      'GET /health',
+      'GET /api/users/:id',
+      'POST /api/users',
+      '* /legacy/*',
+      'WS /live'
+    ]);
+    expect(routes[0]).toMatchObject({ name: null, group: null, meta: { hidden: true }, schemas: {} });
+    expect(routes[1]).toMatchObject({ name: 'user.show', group: '/api', meta: { summary: 'Get a user' } });
+    expect(Object.keys(routes[1].schemas)).toEqual(['params', 'query']);
+  });
+
+  test('includes routes of mounted apps below their prefix', () => {
+    const admin = new Halin();
+    admin.group('/users').routes(users => {
+      users.delete('/:id', (req, res) => {});
+    });
+    const app = new Halin();
+    app.get('/', (req, res) => {});
+    app.mount('/admin', admin);
+
+    expect(app.routes().map(({ method, path, group }) => ({ method, path, group }))).toEqual([
+      { method: 'GET', path: '/', group: null },
+      { method: 'DELETE', path: '/admin/users/:id', group: '/admin/users' }
+    ]);
+  });
+});
+
+describe('OpenAPI documents', () => {
+  test('describe paths, parameters, bodies and responses', () => {
+    const doc = generateOpenAPI(createApp(), { info: { title: 'Users', version: '2.0.0' } });
+
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.info).toEqual({ title: 'Users', version: '2.0.0' });
+    // Hidden, all() and ws() routes are left out
+    expect(Object.keys(doc.paths)).toEqual(['/api/users/{id}', '/api/users']);
+
+    const show = doc.paths['/api/users/{id}'].get as any;
+    expect(show).toMatchObject({ summary: 'Get a user', tags: ['users'], operationId: 'user.show' });
+    expect(show.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+      { name: 'fields', in: 'query', required: false, schema: { type: 'array', items: { type: 'string' } } },
+      { name: 'active', in: 'query', required: false, schema: { type: 'boolean', default: true } }
+    ]);
+    expect(show.responses).toEqual({
+      200: {
+        description: 'The user',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { id: { type: 'number' }, name: { type: 'string' } },
+              required: ['id', 'name']
+            }
+          }
+        }
+      },
+      404: { description: 'No such user' },
+      400: { description: 'Validation failed' }
+    });
+
+    const create = doc.paths['/api/users'].post as any;
+    expect(create.deprecated).toBe(true);
+    expect(create.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string', minLength: 1 }, age: { type: 'integer', minimum: 0 } },
+            required: ['name']
+          }
+        }
+      }
+    });
+  });
+
+  test('use the schema option for schemas that cannot describe themselves', () => {
+    const external = { parse: (value: unknown) => value };
+    const app = new Halin();
+    app.post('/items', validate({ body: external }), (req, res) => {});
+
+    const described = generateOpenAPI(app, { schema: schema => schema === external ? { type: 'object' } : undefined });
+    expect((described.paths['/items'].post as any).requestBody.content['application/json'].schema).toEqual({ type: 'object' });
+
+    const unknown = generateOpenAPI(app);
+    expect((unknown.paths['/items'].post as any).requestBody.content['application/json'].schema).toEqual({});
+  });
+
+  test('serve the document and the docs page', async () => {
+    const app = createApp();
+    app.get('/openapi.json', openapi(app, { info: { title: 'Users' } }), { meta: { hidden: true } });
+    app.get('/docs', apiDocs({ title: 'Users <API>' }), { meta: { hidden: true } });
+
+    const response = await app.handle(new Request('http://localhost/openapi.json'));
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    const doc = await response.json();
+    expect(Object.keys(doc.paths)).toEqual(['/api/users/{id}', '/api/users']);
+
+    const page = await app.handle(new Request('http://localhost/docs'));
+    expect(page.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    const html = await page.text();
+    expect(html).toContain('<title>Users &#60;API&#62;</title>');
+    expect(html).toContain('const specUrl = "/openapi.json"');
+    expect(html).not.toMatch(/<script[^>]+src=|<link[^>]+href=/);
+  });
+});
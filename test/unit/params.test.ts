@@ -0,0 +1,44 @@
+import { Halin, type ExtractParams } from '../../src/halin';
+import { describe, expect, expectTypeOf, test } from 'bun:test';
+
+describe('Typed route params', () => {
+  test('should infer param names from the path literal', () => {
+    expectTypeOf<ExtractParams<'/users/:id/posts/:postId'>>().toEqualTypeOf<{ id: string } & { postId: string }>();
+    expectTypeOf<ExtractParams<'/users'>>().toEqualTypeOf<{}>();
+    expectTypeOf<ExtractParams<string>>().toEqualTypeOf<Record<string, string>>();
+  });
+
+  test('handlers should receive typed params', async () => {
+    const app = new Halin();
+    app.get('/users/:id/posts/:postId', (req, res) => {
+      expectTypeOf(req.params.id).toBeString();
+      // @ts-expect-error postid is not a param of this route
+      req.params.postid;
+      res.json({ id: req.params.id, postId: req.params.postId });
+    });
+
+    const response = await app.handle(new Request('http://localhost/users/1/posts/2'));
+    expect(await response.json()).toEqual({ id: '1', postId: '2' });
+  });
+
+  test('group routes should include params from the prefix', async () => {
+    const app = new Halin();
+    app.group('/orgs/:orgId')
+      .use((req, res, next) => {
+        expectTypeOf(req.params.orgId).toBeString();
+        return next?.();
+      })
+      .routes(org => {
+        org.group('/teams/:teamId').routes(team => {
+          team.get('/members/:memberId', (req, res) => {
+            // @ts-expect-error userId is not a param of this route
+            req.params.userId;
+            res.json(req.params);
+          });
+        });
+      });
+
+    const response = await app.handle(new Request('http://localhost/orgs/a/teams/b/members/c'));
+    expect(await response.json()).toEqual({ orgId: 'a', teamId: 'b', memberId: 'c' });
+  });
+});
@@ -0,0 +1,183 @@
+import { Halin, MemoryRateLimitStore, SqliteRateLimitStore, rateLimit, type RateLimitOptions } from '../../src/halin';
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+
+const START = new Date('2024-01-01T00:00:00Z').getTime();
+
+function at(ms: number): void {
+  setSystemTime(new Date(START + ms));
+}
+
+function createApp(options: RateLimitOptions): Halin {
+  const app = new Halin();
+  app.use(rateLimit(options));
+  app.get('/', (req, res) => {
+    res.text('ok');
+  });
+  return app;
+}
+
+function get(app: Halin, path = '/', headers: Record<string, string> = {}): Promise<Response> {
+  return app.handle(new Request(`http://localhost${path}`, { headers }));
+}
+
+async function statuses(app: Halin, count: number): Promise<number[]> {
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push((await get(app)).status);
+  }
+  return result;
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('rateLimit()', () => {
+  test('fixed window allows limit requests per window', async () => {
+    at(1000);
+    const app = createApp({ limit: 2, window: 10 });
+
+    const first = await get(app);
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(first.headers.get('RateLimit-Reset')).toBe('9');
+    expect(first.headers.get('RateLimit-Policy')).toBe('2;w=10');
+
+    expect((await get(app)).status).toBe(200);
+    const limited = await get(app);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('9');
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(await limited.json()).toMatchObject({ error: 'Too Many Requests' });
+
+    at(10_000);
+    expect(await statuses(app, 3)).toEqual([200, 200, 429]);
+  });
+
+  test('sliding window weighs the previous window', async () => {
+    at(0);
+    const app = createApp({ algorithm: 'sliding-window', limit: 4, window: 10 });
+    expect(await statuses(app, 5)).toEqual([200, 200, 200, 200, 429]);
+
+    // Halfway through the next window half of the previous count remains
+    at(15_000);
+    expect(await statuses(app, 3)).toEqual([200, 200, 429]);
+
+    at(30_000);
+    expect(await statuses(app, 4)).toEqual([200, 200, 200, 200]);
+  });
+
+  test('sliding window reports when a request fits again', async () => {
+    at(10_000);
+    const app = createApp({ algorithm: 'sliding-window', limit: 2, window: 10 });
+    await statuses(app, 2);
+    at(20_000);
+    expect(await statuses(app, 1)).toEqual([429]);
+    at(21_000);
+    // 2 * (1 - 0.1) + 0 = 1.8 requests counted; one fits once the weight is 0.5
+    const limited = await get(app);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('4');
+    at(25_000);
+    expect((await get(app)).status).toBe(200);
+  });
+
+  test('token bucket allows bursts and refills steadily', async () => {
+    at(0);
+    const app = createApp({ algorithm: 'token-bucket', limit: 1, window: 1, burst: 3 });
+    expect(await statuses(app, 4)).toEqual([200, 200, 200, 429]);
+
+    const limited = await get(app);
+    expect(limited.headers.get('Retry-After')).toBe('1');
+    expect(limited.headers.get('RateLimit-Limit')).toBe('3');
+
+    at(2500);
+    expect(await statuses(app, 3)).toEqual([200, 200, 429]);
+  });
+
+  test('counts keys separately and honors skip', async () => {
+    at(0);
+    const app = createApp({
+      limit: 1,
+      key: req => req.headers.get('X-API-Key') ?? 'anonymous',
+      skip: req => req.query.health === '1'
+    });
+
+    expect((await get(app, '/', { 'X-API-Key': 'a' })).status).toBe(200);
+    expect((await get(app, '/', { 'X-API-Key': 'a' })).status).toBe(429);
+    expect((await get(app, '/', { 'X-API-Key': 'b' })).status).toBe(200);
+
+    const skipped = await get(app, '/?health=1', { 'X-API-Key': 'a' });
+    expect(skipped.status).toBe(200);
+    expect(skipped.headers.has('RateLimit-Limit')).toBe(false);
+  });
+
+  test('applies per route and per group', async () => {
+    at(0);
+    const app = new Halin();
+    app.post('/login', rateLimit({ limit: 1, headers: false }), (req, res) => {
+      res.text('welcome');
+    });
+    app.group('/api').use(rateLimit({ limit: 2 })).routes(api => {
+      api.get('/items', (req, res) => {
+        res.json([]);
+      });
+    });
+    app.get('/free', (req, res) => {
+      res.text('free');
+    });
+
+    const login = () => app.handle(new Request('http://localhost/login', { method: 'POST' }));
+    expect((await login()).status).toBe(200);
+    const limited = await login();
+    expect(limited.status).toBe(429);
+    expect(limited.headers.has('RateLimit-Limit')).toBe(false);
+    expect(limited.headers.get('Retry-After')).toBe('60');
+
+    expect((await get(app, '/api/items')).headers.get('RateLimit-Remaining')).toBe('1');
+    expect((await get(app, '/free')).headers.has('RateLimit-Limit')).toBe(false);
+  });
+
+  test('rejects unknown algorithms', () => {
+    expect(() => rateLimit({ algorithm: 'leaky' as any })).toThrow('Unknown rate limit algorithm: leaky');
+  });
+});
+
+describe('rate limit stores', () => {
+  test('MemoryRateLimitStore expires and resets keys', () => {
+    at(0);
+    const store = new MemoryRateLimitStore();
+    expect(store.update('a', 1000, state => ({ count: (state?.count ?? 0) + 1 }))).toEqual({ count: 1 });
+    expect(store.update('a', 1000, state => ({ count: (state?.count ?? 0) + 1 }))).toEqual({ count: 2 });
+
+    at(1000);
+    expect(store.update('a', 1000, state => ({ count: (state?.count ?? 0) + 1 }))).toEqual({ count: 1 });
+    store.reset('a');
+    expect(store.update('a', 1000, state => ({ count: (state?.count ?? 0) + 1 }))).toEqual({ count: 1 });
+
+    at(70_000);
+    store.update('b', 1000, () => ({ count: 1 }));
+    expect(store.size).toBe(1);
+  });
+
+  test('SqliteRateLimitStore shares limits between limiters', async () => {
+    at(0);
+    const store = new SqliteRateLimitStore();
+    const first = createApp({ limit: 2, store });
+    const second = createApp({ limit: 2, store });
+
+    expect((await get(first)).status).toBe(200);
+    expect((await get(second)).status).toBe(200);
+    expect((await get(first)).status).toBe(429);
+
+    store.reset('ratelimit:unknown');
+    expect((await get(second)).status).toBe(200);
+
+    at(60_000);
+    expect(await statuses(first, 3)).toEqual([200, 200, 429]);
+  });
+
+  test('SqliteRateLimitStore validates the table name', () => {
+    expect(() => new SqliteRateLimitStore(':memory:', 'bad name')).toThrow('Invalid rate limit table name');
+  });
+});
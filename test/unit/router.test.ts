@@ -0,0 +1,85 @@
+import { ANY_METHOD, Router } from '../../src/router';
+import { Halin } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+
+describe('Router', () => {
+  test('should match static routes', () => {
+    const router = new Router<string>();
+    router.add('GET', '/', 'root');
+    router.add('GET', '/users', 'users');
+    expect(router.find('GET', '/')).toEqual({ value: 'root', params: {} });
+    expect(router.find('GET', '/users')).toEqual({ value: 'users', params: {} });
+    expect(router.find('GET', '/users/')).toBeNull();
+    expect(router.find('POST', '/users')).toBeNull();
+  });
+
+  test('should extract and decode params', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users/:id/posts/:postId', 'post');
+    expect(router.find('GET', '/users/42/posts/hello%20world')).toEqual({
+      value: 'post',
+      params: { id: '42', postId: 'hello world' }
+    });
+    expect(router.find('GET', '/users//posts/1')).toBeNull();
+  });
+
+  test('should keep param names per route', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users/:id', 'user');
+    router.add('GET', '/users/:userId/posts', 'posts');
+    expect(router.find('GET', '/users/1')?.params).toEqual({ id: '1' });
+    expect(router.find('GET', '/users/1/posts')?.params).toEqual({ userId: '1' });
+  });
+
+  test('should prefer static over param over wildcard regardless of order', () => {
+    const router = new Router<string>();
+    router.add('GET', '/files/*', 'wildcard');
+    router.add('GET', '/files/:name', 'param');
+    router.add('GET', '/files/readme', 'static');
+    expect(router.find('GET', '/files/readme')?.value).toBe('static');
+    expect(router.find('GET', '/files/other')?.value).toBe('param');
+    expect(router.find('GET', '/files/a/b/c')?.value).toBe('wildcard');
+    expect(router.find('GET', '/files')).toBeNull();
+  });
+
+  test('should backtrack when a static branch has no match for the method', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users/me', 'me');
+    router.add('POST', '/users/:id', 'update');
+    expect(router.find('POST', '/users/me')).toEqual({ value: 'update', params: { id: 'me' } });
+  });
+
+  test('should keep the first registration of a route', () => {
+    const router = new Router<string>();
+    router.add('GET', '/', 'first');
+    router.add('GET', '/', 'second');
+    expect(router.find('GET', '/')?.value).toBe('first');
+  });
+
+  test('should reject wildcards that are not the last segment', () => {
+    const router = new Router<string>();
+    expect(() => router.add('GET', '/a/*/b', 'bad')).toThrow();
+  });
+
+  test('should match ANY_METHOD routes after method-specific ones', () => {
+    const router = new Router<string>();
+    router.add(ANY_METHOD, '/files/*', 'any');
+    router.add('GET', '/files/readme', 'readme');
+    expect(router.find('GET', '/files/readme')?.value).toBe('readme');
+    expect(router.find('POST', '/files/readme')?.value).toBe('any');
+    expect(router.find('DELETE', '/files/a/b')?.value).toBe('any');
+    expect(router.find('GET', '/other')).toBeNull();
+  });
+
+  test('app should route static paths before params registered earlier', async () => {
+    const app = new Halin();
+    app.get('/users/:id', (req, res) => {
+      res.json({ id: req.params.id });
+    });
+    app.get('/users/me', (req, res) => {
+      res.json({ me: true });
+    });
+    const response = await app.handle(new Request('http://localhost/users/me'));
+    expect(await response.json()).toEqual({ me: true });
+  });
+});
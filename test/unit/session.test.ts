@@ -0,0 +1,181 @@
+import { Halin, MemoryStore, SqliteStore, session, type SessionStore } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+import { quietApp } from '../utils';
+
+// Minimal cookie jar that replays Set-Cookie headers on the next request
+function createClient(app: Halin) {
+  const jar = new Map<string, string>();
+  return {
+    jar,
+    async get(path: string): Promise<Response> {
+      const cookie = [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+      const response = await app.handle(new Request(`http://localhost${path}`, {
+        headers: cookie ? { Cookie: cookie } : {}
+      }));
+      for (const setCookie of response.headers.getSetCookie()) {
+        const [pair] = setCookie.split(';');
+        const index = pair.indexOf('=');
+        const value = pair.slice(index + 1);
+        if (setCookie.includes('Max-Age=0')) {
+          jar.delete(pair.slice(0, index));
+        } else {
+          jar.set(pair.slice(0, index), value);
+        }
+      }
+      return response;
+    }
+  };
+}
+
+function createApp(options: Parameters<typeof session>[0] = {}, secret?: string): Halin {
+  const app = quietApp({ cookieSecret: secret });
+  app.use(session(options));
+  app.get('/count', (req, res) => {
+    const count = (req.session.get<number>('count') ?? 0) + 1;
+    req.session.set('count', count);
+    res.json({ count });
+  });
+  app.get('/peek', (req, res) => {
+    res.json({ count: req.session.get('count') ?? null });
+  });
+  app.get('/login', async (req, res) => {
+    await req.session.regenerate();
+    req.session.set('user', 'alice');
+    res.json({ id: req.session.id });
+  });
+  app.get('/logout', async (req, res) => {
+    await req.session.destroy();
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+describe('Sessions', () => {
+  test('should persist data across requests', async () => {
+    const client = createClient(createApp());
+    expect(await (await client.get('/count')).json()).toEqual({ count: 1 });
+    expect(await (await client.get('/count')).json()).toEqual({ count: 2 });
+    expect(await (await client.get('/peek')).json()).toEqual({ count: 2 });
+  });
+
+  test('should not create sessions that were never written', async () => {
+    const store = new MemoryStore();
+    const client = createClient(createApp({ store }));
+    const response = await client.get('/peek');
+    expect(response.headers.getSetCookie()).toEqual([]);
+    expect(store.size).toBe(0);
+  });
+
+  test('regenerate should move data to a new ID and drop the old one', async () => {
+    const store = new MemoryStore();
+    const client = createClient(createApp({ store }));
+    await client.get('/count');
+    const oldId = client.jar.get('halin.sid')!;
+
+    const { id } = await (await client.get('/login')).json();
+    expect(id).not.toBe(oldId);
+    expect(client.jar.get('halin.sid')).toBe(id);
+    expect(store.get(oldId)).toBeNull();
+    expect(store.get(id)?.data).toEqual({ count: 1, user: 'alice' });
+  });
+
+  test('destroy should remove the session and clear the cookie', async () => {
+    const store = new MemoryStore();
+    const client = createClient(createApp({ store }));
+    await client.get('/count');
+    const id = client.jar.get('halin.sid')!;
+
+    await client.get('/logout');
+    expect(store.get(id)).toBeNull();
+    expect(client.jar.has('halin.sid')).toBe(false);
+    expect(await (await client.get('/peek')).json()).toEqual({ count: null });
+  });
+
+  test('rolling sessions should push the expiry back on each request', async () => {
+    const store = new MemoryStore();
+    const client = createClient(createApp({ store, ttl: 60 }));
+    await client.get('/count');
+    const id = client.jar.get('halin.sid')!;
+    const first = store.get(id)!.expires;
+
+    await Bun.sleep(5);
+    const response = await client.get('/peek');
+    expect(response.headers.getSetCookie()[0]).toContain('Max-Age=60');
+    expect(store.get(id)!.expires).toBeGreaterThan(first);
+  });
+
+  test('non-rolling sessions should keep their expiry', async () => {
+    const store = new MemoryStore();
+    const client = createClient(createApp({ store, rolling: false }));
+    await client.get('/count');
+    const id = client.jar.get('halin.sid')!;
+    const first = store.get(id)!.expires;
+
+    const response = await client.get('/peek');
+    expect(response.headers.getSetCookie()).toEqual([]);
+    expect(store.get(id)!.expires).toBe(first);
+  });
+
+  test('expired sessions should start over', async () => {
+    const store: SessionStore = new MemoryStore();
+    const client = createClient(createApp({ store }));
+    await client.get('/count');
+    const id = client.jar.get('halin.sid')!;
+    store.set(id, { data: { count: 5 }, expires: Date.now() - 1 });
+
+    expect(await (await client.get('/count')).json()).toEqual({ count: 1 });
+  });
+
+  test('MemoryStore should evict the least recently used session', () => {
+    const store = new MemoryStore(2);
+    const expires = Date.now() + 60_000;
+    store.set('a', { data: {}, expires });
+    store.set('b', { data: {}, expires });
+    store.get('a');
+    store.set('c', { data: {}, expires });
+    expect(store.get('a')).not.toBeNull();
+    expect(store.get('b')).toBeNull();
+    expect(store.get('c')).not.toBeNull();
+  });
+
+  test('SqliteStore should persist and expire sessions', async () => {
+    const store = new SqliteStore();
+    const client = createClient(createApp({ store }));
+    await client.get('/count');
+    await client.get('/count');
+    const id = client.jar.get('halin.sid')!;
+    expect(store.get(id)?.data).toEqual({ count: 2 });
+
+    store.set('stale', { data: {}, expires: Date.now() - 1 });
+    expect(store.get('stale')).toBeNull();
+    store.prune();
+    store.destroy(id);
+    expect(store.get(id)).toBeNull();
+  });
+
+  test('cookieOnly sessions should keep encrypted data in the cookie', async () => {
+    const client = createClient(createApp({ cookieOnly: true }, 'secret'));
+    await client.get('/count');
+    expect(client.jar.get('halin.sid')).not.toContain('count');
+    expect(await (await client.get('/count')).json()).toEqual({ count: 2 });
+
+    await client.get('/logout');
+    expect(await (await client.get('/peek')).json()).toEqual({ count: null });
+  });
+
+  test('req.session should fail clearly without the middleware', async () => {
+    const app = quietApp();
+    app.get('/', (req, res) => {
+      req.session.get('x');
+    });
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'development';
+    try {
+      const response = await app.handle(new Request('http://localhost/'));
+      expect(response.status).toBe(500);
+      expect((await response.json()).message).toContain('session() middleware');
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+  });
+});
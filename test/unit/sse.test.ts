@@ -0,0 +1,161 @@
+import { Halin } from '../../src/halin';
+import { formatSSE } from '../../src/sse';
+import { describe, expect, test } from 'bun:test';
+import { quietApp, request } from '../utils';
+
+describe('formatSSE', () => {
+  test('frames event, id and retry fields', () => {
+    expect(formatSSE({ event: 'update', id: 7, retry: 3000, data: 'hello' }))
+      .toBe('event: update\nid: 7\nretry: 3000\ndata: hello\n\n');
+  });
+
+  test('splits multi-line data into data fields', () => {
+    expect(formatSSE({ data: 'line 1\nline 2\r\nline 3' })).toBe('data: line 1\ndata: line 2\ndata: line 3\n\n');
+    expect(formatSSE({ data: { a: 1 } })).toBe('data: {"a":1}\n\n');
+  });
+
+  test('rejects line breaks in single-line fields', () => {
+    expect(() => formatSSE({ event: 'a\nb', data: 'x' })).toThrow();
+    expect(() => formatSSE({ id: 'a\rb', data: 'x' })).toThrow();
+  });
+});
+
+describe('res.sse', () => {
+  test('sends messages with event fields and plain data', async () => {
+    const app = new Halin();
+    app.get('/events', (req, res) => {
+      const sse = res.sse();
+      sse.send({ event: 'greeting', id: '1', data: 'hi\nthere' });
+      sse.send({ message: 'plain object' });
+      sse.comment('keep going');
+      sse.close();
+    });
+
+    const response = await request(app, '/events');
+    expect(await response.text()).toBe(
+      'event: greeting\nid: 1\ndata: hi\ndata: there\n\n'
+      + 'data: {"message":"plain object"}\n\n'
+      + ': keep going\n\n'
+    );
+  });
+
+  test('exposes Last-Event-ID for resuming', async () => {
+    const app = new Halin();
+    app.get('/events', (req, res) => {
+      const sse = res.sse();
+      sse.send(`resume after ${sse.lastEventId}`);
+      sse.close();
+    });
+
+    const response = await request(app, '/events', { headers: { 'Last-Event-ID': '42' } });
+    expect(await response.text()).toBe('data: resume after 42\n\n');
+  });
+
+  test('keeps status and headers set before res.sse()', async () => {
+    const app = new Halin();
+    app.get('/events', (req, res) => {
+      res.status(201).header('X-Stream', 'yes').header('Cache-Control', 'no-store');
+      res.cookie('seen', '1');
+      const sse = res.sse();
+      sse.close();
+    });
+
+    const response = await request(app, '/events');
+    expect(response.status).toBe(201);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('X-Stream')).toBe('yes');
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(response.headers.getSetCookie()).toHaveLength(1);
+  });
+
+  test('notifies the handler when the client disconnects', async () => {
+    const app = new Halin();
+    let aborted = false;
+    let closed = false;
+    app.get('/events', (req, res) => {
+      const sse = res.sse();
+      sse.signal.addEventListener('abort', () => {
+        aborted = true;
+      });
+      sse.onClose(() => {
+        closed = true;
+      });
+      sse.send('first');
+    });
+
+    const response = await request(app, '/events');
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(aborted).toBe(true);
+    expect(closed).toBe(true);
+  });
+
+  test('runs onClose when the handler closes the stream', async () => {
+    const app = new Halin();
+    const calls: string[] = [];
+    app.get('/events', (req, res) => {
+      const sse = res.sse();
+      sse.onClose(() => calls.push('closed'));
+      sse.close();
+      sse.send('ignored');
+      sse.onClose(() => calls.push('late'));
+    });
+
+    const response = await request(app, '/events');
+    expect(await response.text()).toBe('');
+    expect(calls).toEqual(['closed', 'late']);
+  });
+
+  test('sends heartbeat comments', async () => {
+    const app = new Halin();
+    app.get('/events', (req, res) => {
+      const sse = res.sse({ heartbeat: 5 });
+      setTimeout(() => sse.close(), 30);
+    });
+
+    const response = await request(app, '/events');
+    expect(await response.text()).toContain(': heartbeat\n\n');
+  });
+
+  test('closes the stream when the request ends in an error', async () => {
+    const app = quietApp();
+    const closed: string[] = [];
+    app.get('/throws', (req, res) => {
+      const sse = res.sse({ heartbeat: 5 });
+      sse.onClose(() => closed.push(req.path));
+      throw new Error('broken');
+    });
+    app.get('/send-fails', (req, res) => {
+      const sse = res.sse({ heartbeat: 5 });
+      sse.onClose(() => closed.push(req.path));
+    });
+    app.onSend(req => {
+      if (req.path === '/send-fails') throw new Error('onSend broke');
+    });
+
+    const thrown = await request(app, '/throws');
+    expect(thrown.status).toBe(500);
+    expect(thrown.headers.get('Content-Type')).toBe('application/json');
+    expect((await request(app, '/send-fails')).status).toBe(500);
+    expect(closed).toEqual(['/throws', '/send-fails']);
+  });
+
+  test('closes the stream of HEAD requests', async () => {
+    const app = new Halin();
+    let closed = false;
+    app.get('/events', (req, res) => {
+      const sse = res.sse({ heartbeat: 5 });
+      sse.onClose(() => {
+        closed = true;
+      });
+    });
+
+    const response = await app.handle(new Request('http://localhost/events', { method: 'HEAD' }));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await response.text()).toBe('');
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+import { Halin, serveStatic } from '../../src/halin';
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { request } from '../utils';
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'halin-static-'));
+  await mkdir(join(root, 'public', 'docs'), { recursive: true });
+  await writeFile(join(root, 'public', 'index.html'), '<h1>Home</h1>');
+  await writeFile(join(root, 'public', 'app.js'), 'console.log(1);');
+  await writeFile(join(root, 'public', 'data.txt'), '0123456789abcdefghij');
+  await writeFile(join(root, 'public', 'docs', 'index.html'), '<h1>Docs</h1>');
+  await writeFile(join(root, 'public', '.env'), 'SECRET=1');
+  await writeFile(join(root, 'secret.txt'), 'outside');
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+function createApp(options: Parameters<typeof serveStatic>[1] = {}): Halin {
+  const app = new Halin();
+  app.use(serveStatic(join(root, 'public'), options));
+  app.get('/api/ping', (req, res) => {
+    res.json({ pong: true });
+  });
+  return app;
+}
+
+describe('serveStatic', () => {
+  test('serves files with content type and validators', async () => {
+    const response = await request(createApp(), '/app.js');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('javascript');
+    expect(response.headers.get('Content-Length')).toBe('15');
+    expect(response.headers.get('ETag')).toMatch(/^W\/"/);
+    expect(response.headers.get('Last-Modified')).toBeTruthy();
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await response.text()).toBe('console.log(1);');
+  });
+
+  test('leaves routes and unknown paths to the rest of the app', async () => {
+    const app = createApp();
+    expect(await (await request(app, '/api/ping')).json()).toEqual({ pong: true });
+    expect((await request(app, '/missing.js')).status).toBe(404);
+    expect((await request(app, '/app.js', { method: 'POST' })).status).toBe(404);
+  });
+
+  test('serves index files and redirects directories without a slash', async () => {
+    const app = createApp();
+    expect(await (await request(app, '/')).text()).toBe('<h1>Home</h1>');
+    expect(await (await request(app, '/docs/')).text()).toBe('<h1>Docs</h1>');
+
+    const redirect = await request(app, '/docs?page=2');
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.get('Location')).toBe('/docs/?page=2');
+  });
+
+  test('answers HEAD with headers only', async () => {
+    const response = await request(createApp(), '/data.txt', { method: 'HEAD' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Length')).toBe('20');
+    expect(await response.text()).toBe('');
+  });
+
+  test('answers If-None-Match and If-Modified-Since with 304', async () => {
+    const app = createApp({ maxAge: 3600, immutable: true });
+    const first = await request(app, '/data.txt');
+    const etag = first.headers.get('ETag')!;
+    expect(first.headers.get('Cache-Control')).toBe('public, max-age=3600, immutable');
+
+    const byETag = await request(app, '/data.txt', { headers: { 'If-None-Match': `"other", ${etag}` } });
+    expect(byETag.status).toBe(304);
+    expect(byETag.headers.get('ETag')).toBe(etag);
+    expect(await byETag.text()).toBe('');
+
+    const byDate = await request(app, '/data.txt', { headers: { 'If-Modified-Since': first.headers.get('Last-Modified')! } });
+    expect(byDate.status).toBe(304);
+
+    const stale = await request(app, '/data.txt', { headers: { 'If-Modified-Since': new Date(0).toUTCString() } });
+    expect(stale.status).toBe(200);
+  });
+
+  test('serves single byte ranges with 206', async () => {
+    const app = createApp();
+
+    const range = await request(app, '/data.txt', { headers: { Range: 'bytes=2-5' } });
+    expect(range.status).toBe(206);
+    expect(range.headers.get('Content-Range')).toBe('bytes 2-5/20');
+    expect(range.headers.get('Content-Length')).toBe('4');
+    expect(await range.text()).toBe('2345');
+
+    const suffix = await request(app, '/data.txt', { headers: { Range: 'bytes=-3' } });
+    expect(await suffix.text()).toBe('hij');
+
+    const open = await request(app, '/data.txt', { headers: { Range: 'bytes=15-' } });
+    expect(await open.text()).toBe('fghij');
+  });
+
+  test('serves multiple byte ranges as multipart/byteranges', async () => {
+    const response = await request(createApp(), '/data.txt', { headers: { Range: 'bytes=0-1, 10-12' } });
+    expect(response.status).toBe(206);
+
+    const contentType = response.headers.get('Content-Type')!;
+    expect(contentType).toStartWith('multipart/byteranges; boundary=');
+    const boundary = contentType.split('boundary=')[1];
+
+    const body = await response.text();
+    expect(body.length).toBe(Number(response.headers.get('Content-Length')));
+    expect(body).toContain(`--${boundary}\r\nContent-Type: text/plain;charset=utf-8\r\nContent-Range: bytes 0-1/20\r\n\r\n01\r\n`);
+    expect(body).toContain('Content-Range: bytes 10-12/20\r\n\r\nabc\r\n');
+    expect(body).toEndWith(`--${boundary}--\r\n`);
+  });
+
+  test('rejects unsatisfiable ranges with 416', async () => {
+    const response = await request(createApp(), '/data.txt', { headers: { Range: 'bytes=50-60' } });
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */20');
+  });
+
+  test('ignores Range when If-Range does not match', async () => {
+    const response = await request(createApp(), '/data.txt', { headers: { Range: 'bytes=0-1', 'If-Range': '"stale"' } });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('0123456789abcdefghij');
+  });
+
+  test('blocks path traversal', async () => {
+    const app = createApp();
+    const encoded = await request(app, '/..%2fsecret.txt');
+    expect(encoded.status).toBe(403);
+
+    const backslash = await request(app, '/..%5csecret.txt');
+    expect(backslash.status).toBe(403);
+
+    const nul = await request(app, '/app.js%00.txt');
+    expect(nul.status).toBe(400);
+  });
+
+  test('hides dotfiles unless allowed', async () => {
+    expect((await request(createApp(), '/.env')).status).toBe(404);
+    expect((await request(createApp({ dotfiles: 'deny' }), '/.env')).status).toBe(403);
+    expect(await (await request(createApp({ dotfiles: 'allow' }), '/.env')).text()).toBe('SECRET=1');
+  });
+
+  test('serves files under a prefix', async () => {
+    const app = createApp({ prefix: '/assets' });
+    expect(await (await request(app, '/assets/app.js')).text()).toBe('console.log(1);');
+    expect((await request(app, '/app.js')).status).toBe(404);
+  });
+
+  test('falls back to the SPA entry point for HTML requests', async () => {
+    const app = createApp({ fallback: 'index.html' });
+
+    const page = await request(app, '/dashboard/settings', { headers: { Accept: 'text/html,application/xhtml+xml' } });
+    expect(page.status).toBe(200);
+    expect(await page.text()).toBe('<h1>Home</h1>');
+
+    const asset = await request(app, '/missing.js', { headers: { Accept: 'application/javascript' } });
+    expect(asset.status).toBe(404);
+
+    expect((await request(app, '/api/ping', { headers: { Accept: 'text/html' } })).status).toBe(200);
+  });
+
+  test('leaves routes to the app when the fallback is set', async () => {
+    const app = createApp({ fallback: 'index.html' });
+
+    const api = await request(app, '/api/ping', { headers: { Accept: '*/*' } });
+    expect(api.status).toBe(200);
+    expect(await api.json()).toEqual({ pong: true });
+
+    // Clients that are not browsers get the 404, not the SPA entry point
+    expect((await request(app, '/api/missing', { headers: { Accept: '*/*' } })).status).toBe(404);
+    expect((await request(app, '/dashboard', { headers: { Accept: 'text/html' } })).status).toBe(200);
+  });
+
+  test('answers 404 itself with fallthrough disabled', async () => {
+    const app = new Halin();
+    app.get('/files/*', serveStatic(join(root, 'public'), { prefix: '/files', fallthrough: false }));
+    expect(await (await request(app, '/files/app.js')).text()).toBe('console.log(1);');
+    expect((await request(app, '/files/nope.txt')).status).toBe(404);
+  });
+});
+
+describe('res.file', () => {
+  test('sends a file with conditional and range support', async () => {
+    const app = new Halin();
+    app.get('/report', async (req, res) => {
+      await res.file(join(root, 'public', 'data.txt'), { maxAge: 60 });
+    });
+
+    const response = await request(app, '/report');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=60');
+    expect(await response.text()).toBe('0123456789abcdefghij');
+
+    const cached = await request(app, '/report', { headers: { 'If-None-Match': response.headers.get('ETag')! } });
+    expect(cached.status).toBe(304);
+
+    const partial = await request(app, '/report', { headers: { Range: 'bytes=0-2' } });
+    expect(await partial.text()).toBe('012');
+  });
+
+  test('throws 404 for missing files', async () => {
+    const app = new Halin();
+    app.get('/report', async (req, res) => {
+      await res.file(join(root, 'missing.txt'));
+    });
+    expect((await request(app, '/report')).status).toBe(404);
+  });
+});
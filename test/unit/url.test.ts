@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { quietApp, request } from '../utils';
+
+describe('named routes', () => {
+  test('build URLs from route options and name()', () => {
+    const app = quietApp();
+    app.get('/users/:id', (req, res) => {}, { name: 'user.show' });
+    app.get('/users/:id/posts/:postId', (req, res) => {}).name('post.show');
+
+    expect(app.url('user.show', { id: 5 })).toBe('/users/5');
+    expect(app.url('post.show', { id: 'ada', postId: 7 })).toBe('/users/ada/posts/7');
+  });
+
+  test('percent-encode params and add query strings', () => {
+    const app = quietApp();
+    app.get('/search/:term', (req, res) => {}, { name: 'search' });
+    app.get('/files/*', (req, res) => {}, { name: 'files' });
+
+    expect(app.url('search', { term: 'a/b c' }, { query: { page: 2, sort: undefined, q: 'x&y' } }))
+      .toBe('/search/a%2Fb%20c?page=2&q=x%26y');
+    expect(app.url('files', { '*': 'docs/read me.txt' })).toBe('/files/docs/read%20me.txt');
+  });
+
+  test('throw on missing params and unknown names', () => {
+    const app = quietApp();
+    app.get('/users/:id', (req, res) => {}, { name: 'user.show' });
+
+    expect(() => app.url('user.show')).toThrow('Missing param "id" for route user.show');
+    expect(() => app.url('user.show', { id: '' })).toThrow('Missing param');
+    expect(() => app.url('nope')).toThrow('Unknown route name: nope');
+  });
+
+  test('reject duplicate names', () => {
+    const app = quietApp();
+    app.get('/a', (req, res) => {}, { name: 'page' });
+    expect(() => app.get('/b', (req, res) => {}, { name: 'page' })).toThrow('already used by GET /a');
+    expect(() => quietApp().name('x')).toThrow();
+  });
+
+  test('include group prefixes', () => {
+    const app = quietApp();
+    app.group('/api/v2').routes(api => {
+      api.get('/products/:id', (req, res) => {}, { name: 'product.show' });
+      api.group('/admin').routes(admin => {
+        admin.delete('/products/:id', (req, res) => {}).name('admin.product.delete');
+      });
+    });
+
+    expect(app.url('product.show', { id: 9 })).toBe('/api/v2/products/9');
+    expect(app.url('admin.product.delete', { id: 9 })).toBe('/api/v2/admin/products/9');
+  });
+
+  test('include mount prefixes', () => {
+    const admin = quietApp();
+    admin.get('/users/:id', (req, res) => {}, { name: 'admin.user' });
+    const app = quietApp();
+    app.mount('/admin', admin);
+
+    expect(app.url('admin.user', { id: 1 })).toBe('/admin/users/1');
+    expect(admin.url('admin.user', { id: 1 })).toBe('/admin/users/1');
+  });
+});
+
+describe('res.redirect', () => {
+  test('redirects to URLs', async () => {
+    const app = quietApp();
+    app.get('/old', (req, res) => {
+      res.redirect('/new');
+    });
+    app.get('/moved', (req, res) => {
+      res.redirect('https://example.com/', 301);
+    });
+
+    const response = await request(app, '/old');
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/new');
+
+    const moved = await request(app, '/moved');
+    expect(moved.status).toBe(301);
+    expect(moved.headers.get('Location')).toBe('https://example.com/');
+  });
+
+  test('redirects to named routes', async () => {
+    const app = quietApp();
+    app.get('/users/:id', (req, res) => {}, { name: 'user.show' });
+    app.get('/home', (req, res) => {}, { name: 'home' });
+    app.post('/users', (req, res) => {
+      res.redirect('user.show', { id: 42 }, { status: 303, query: { created: true } });
+    });
+    app.get('/', (req, res) => {
+      res.redirect('home');
+    });
+    app.get('/broken', (req, res) => {
+      res.redirect('missing.route', { id: 1 });
+    });
+
+    const created = await app.handle(new Request('http://localhost/users', { method: 'POST' }));
+    expect(created.status).toBe(303);
+    expect(created.headers.get('Location')).toBe('/users/42?created=true');
+
+    expect((await request(app, '/')).headers.get('Location')).toBe('/home');
+    expect((await request(app, '/broken')).status).toBe(500);
+  });
+});
@@ -0,0 +1,155 @@
+import { Halin, s, validate } from '../../src/halin';
+import { describe, expect, test } from 'bun:test';
+
+function post(path: string, body: unknown): Request {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+describe('Request validation', () => {
+  test('should coerce query and params with the built-in DSL', async () => {
+    const app = new Halin();
+    app.get('/users/:id', validate({
+      params: { id: s.number({ integer: true }) },
+      query: { active: s.boolean().default(true), tags: s.array(s.string()).optional() }
+    }, (req, res) => {
+      res.json(req.valid);
+    }));
+
+    const response = await app.handle(new Request('http://localhost/users/42?tags=a'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      params: { id: 42 },
+      query: { active: true, tags: ['a'] }
+    });
+  });
+
+  test('should report every failing field in one 400 error', async () => {
+    const app = new Halin();
+    app.post('/items/:id', validate({
+      params: { id: s.number() },
+      headers: { 'x-api-key': s.string() },
+      body: s.object({
+        name: s.string({ min: 3 }),
+        status: s.enum(['draft', 'published']),
+        tags: s.array(s.string(), { max: 2 })
+      })
+    }), (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const response = await app.handle(post('/items/abc', { name: 'ab', status: 'archived', tags: ['a', 1] }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Validation failed',
+      details: [
+        { field: 'params.id', message: 'Expected number' },
+        { field: 'headers.x-api-key', message: 'Required' },
+        { field: 'body.name', message: 'Must be at least 3 characters' },
+        { field: 'body.status', message: 'Expected one of: draft, published' },
+        { field: 'body.tags.1', message: 'Expected string' }
+      ]
+    });
+  });
+
+  test('should replace req.body with the parsed value', async () => {
+    const app = new Halin();
+    app.post('/items', validate({ body: { name: s.string(), price: s.number() } }), (req, res) => {
+      res.json(req.body);
+    });
+
+    const response = await app.handle(post('/items', { name: 'Book', price: '12.5', extra: true }));
+    expect(await response.json()).toEqual({ name: 'Book', price: 12.5 });
+  });
+
+  test('should accept schemas with a safeParse method', async () => {
+    // Shaped like a Zod schema
+    const nameSchema = {
+      safeParse(value: any) {
+        return typeof value?.name === 'string'
+          ? { success: true, data: { name: value.name.toUpperCase() } }
+          : { success: false, error: { issues: [{ path: ['name'], message: 'Expected string' }] } };
+      }
+    };
+    const app = new Halin();
+    app.post('/items', validate({ body: nameSchema }, (req, res) => {
+      res.json(req.valid.body);
+    }));
+
+    let response = await app.handle(post('/items', { name: 'book' }));
+    expect(await response.json()).toEqual({ name: 'BOOK' });
+
+    response = await app.handle(post('/items', {}));
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([{ field: 'body.name', message: 'Expected string' }]);
+  });
+
+  test('should accept Standard Schema validators', async () => {
+    // Shaped like a Valibot schema
+    const idSchema = {
+      '~standard': {
+        validate: async (value: any) => /^\d+$/.test(value?.id)
+          ? { value: { id: Number(value.id) } }
+          : { issues: [{ path: [{ key: 'id' }], message: 'Invalid id' }] }
+      }
+    };
+    const app = new Halin();
+    app.get('/items/:id', validate({ params: idSchema }), (req, res) => {
+      res.json(req.params);
+    });
+
+    let response = await app.handle(new Request('http://localhost/items/7'));
+    expect(await response.json()).toEqual({ id: 7 });
+
+    response = await app.handle(new Request('http://localhost/items/x'));
+    expect((await response.json()).details).toEqual([{ field: 'params.id', message: 'Invalid id' }]);
+  });
+
+  test('should accept object shapes of foreign schemas', async () => {
+    // Shaped like z.string() and z.coerce.number()
+    const text = {
+      safeParse: (value: any) => typeof value === 'string'
+        ? { success: true, data: value }
+        : { success: false, error: { issues: [{ path: [], message: 'Expected string' }] } }
+    };
+    const page = {
+      '~standard': {
+        validate: async (value: any) => /^\d+$/.test(value) ? { value: Number(value) } : { issues: [{ message: 'Expected page number' }] }
+      }
+    };
+    const app = new Halin();
+    app.get('/search', validate({ query: { q: text, page, size: s.number().default(10) } }), (req, res) => {
+      res.json(req.query);
+    });
+
+    let response = await app.handle(new Request('http://localhost/search?q=books&page=2&extra=1'));
+    expect(await response.json()).toEqual({ q: 'books', page: 2, size: 10 });
+
+    response = await app.handle(new Request('http://localhost/search?page=x'));
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([
+      { field: 'query.q', message: 'Expected string' },
+      { field: 'query.page', message: 'Expected page number' }
+    ]);
+  });
+
+  test('should accept schemas with only a parse method', async () => {
+    const schema = {
+      parse(value: any) {
+        if (!value?.q) throw new Error('q is required');
+        return value;
+      }
+    };
+    const app = new Halin();
+    app.get('/search', validate({ query: schema }), (req, res) => {
+      res.json(req.query);
+    });
+
+    const response = await app.handle(new Request('http://localhost/search'));
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([{ field: 'query', message: 'q is required' }]);
+  });
+});
@@ -1,4 +1,5 @@
-import { Halin } from "../src/halin";
+import { expect } from "bun:test";
+import { Halin, Logger, type HalinOptions, type Request as HalinRequest, type Response as HalinResponse, type NextFunction } from "../src/halin";
 
 /**
  * Create a test request with common defaults
@@ -17,6 +18,21 @@ export function createTestRequest(
   });
 }
 
+/**
+ * Create an app that does not log, so expected errors stay out of the test output
+ */
+export function quietApp(options: HalinOptions = {}): Halin {
+  return new Halin({ logger: new Logger({ level: 'silent' }), ...options });
+}
+
+/**
+ * Send a request for path through the app, without a server; init carries
+ * the method, headers and body, e.g. { method: 'HEAD', headers: { Range: 'bytes=0-1' } }
+ */
+export function request(app: Halin, path: string, init: RequestInit = {}): Promise<Response> {
+  return app.handle(new Request(`http://localhost${path}`, init));
+}
+
 /**
  * Create a mock stream for testing
  */
@@ -40,7 +56,7 @@ export function createTestApp(): Halin {
   const app = new Halin();
   
   // Add error handling
-  app.use((error: Error, req, res, next) => {
+  app.use((error: Error, req: HalinRequest, res: HalinResponse, next: NextFunction) => {
     res.status(500).json({ error: error.message });
   });
 